@@ -1,9 +1,17 @@
-import { parseArgs } from "./utils/args.js";
+import { flagString, parseArgs } from "./utils/args.js";
+import { isJson, jsonDocument, startJson } from "./utils/output.js";
 import { getVersion, pc, ui } from "./utils/ui.js";
+import { resolveProjectDir } from "./utils/workspace.js";
 import { initCommand } from "./commands/init.js";
 import { linkCommand } from "./commands/link.js";
 import { addBlockCommand } from "./commands/add-block.js";
+import { removeBlockCommand } from "./commands/remove-block.js";
+import { renameBlockCommand } from "./commands/rename-block.js";
+import { moveBlockCommand } from "./commands/move-block.js";
 import { doctorCommand } from "./commands/doctor.js";
+import { blocksCommand } from "./commands/blocks.js";
+import { upgradeCommand } from "./commands/upgrade.js";
+import { uninstallCommand } from "./commands/uninstall.js";
 
 const HELP = `
 ${pc.bold("cmssy")} - wire a Next.js app to a headless cmssy workspace
@@ -15,9 +23,24 @@ ${pc.bold("Commands")}
   init                 Add cmssy wiring to an existing Next.js App Router app
   link                 Connect an initialized project to a workspace
   add block <name>     Scaffold a new block and register it
-  doctor               Diagnose a cmssy project's setup
+  remove block <name>  Unregister a block and delete its folder
+  rename block <old> <new>
+                       Rename a block's folder, files, identifiers and registry entry
+  move block <name>    Reorder a block in the registry (--before/--after <other>, --first, --last)
+  blocks               List registered blocks and their fields
+  doctor               Diagnose a cmssy project's setup (--fix to repair, --yes to skip prompts,
+                       --online [--url <dev server>] to check the workspace and draft route)
+  upgrade              Move @cmssy/* and the generated wiring to the versions this CLI supports
+  uninstall            Remove the cmssy wiring, env keys and deps (--keep-blocks, --force)
 
 ${pc.bold("Options")}
+  --dry-run            Show the diffs init, link, add block, rename block, upgrade and uninstall
+                       would apply, without writing
+  --json               Print one JSON result document instead of prompts and progress
+  --cwd <dir>          Run in another directory
+  --filter <package>   Run in one package of a monorepo (by name or path, like apps/web)
+  --pm, --api-url, --blocks-dir, --registry, --templates-dir, --style, --mount
+                       Override the project's cmssy.cli.json (or package.json "cmssy") settings
   -h, --help           Show this help
   -v, --version        Show version
 `;
@@ -36,6 +59,23 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (flags.json) startJson();
+
+  for (const flag of ["cwd", "filter"]) {
+    if (flags[flag] !== undefined && flagString(flags[flag]) === undefined) {
+      ui.error(`--${flag} needs a value.`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+  process.chdir(
+    resolveProjectDir(
+      process.cwd(),
+      flagString(flags.cwd),
+      flagString(flags.filter),
+    ),
+  );
+
   const rest = { positionals: positionals.slice(1), flags };
 
   switch (command) {
@@ -55,17 +95,70 @@ async function main(): Promise<void> {
         process.exitCode = 1;
       }
       break;
+    case "remove":
+      if (positionals[1] === "block") {
+        await removeBlockCommand({ positionals: positionals.slice(2), flags });
+      } else {
+        ui.error(
+          `Unknown remove target: ${pc.bold(positionals[1] ?? "")}. Try ${pc.bold("cmssy remove block <name>")}.`,
+        );
+        process.exitCode = 1;
+      }
+      break;
+    case "rename":
+      if (positionals[1] === "block") {
+        await renameBlockCommand({ positionals: positionals.slice(2), flags });
+      } else {
+        ui.error(
+          `Unknown rename target: ${pc.bold(positionals[1] ?? "")}. Try ${pc.bold("cmssy rename block <old> <new>")}.`,
+        );
+        process.exitCode = 1;
+      }
+      break;
+    case "move":
+      if (positionals[1] === "block") {
+        await moveBlockCommand({ positionals: positionals.slice(2), flags });
+      } else {
+        ui.error(
+          `Unknown move target: ${pc.bold(positionals[1] ?? "")}. Try ${pc.bold("cmssy move block <name>")}.`,
+        );
+        process.exitCode = 1;
+      }
+      break;
+    case "blocks":
+      await blocksCommand(rest);
+      break;
+    case "list":
+      if (positionals[1] === "blocks") {
+        await blocksCommand({ positionals: positionals.slice(2), flags });
+      } else {
+        ui.error(
+          `Unknown list target: ${pc.bold(positionals[1] ?? "")}. Try ${pc.bold("cmssy list blocks")}.`,
+        );
+        process.exitCode = 1;
+      }
+      break;
     case "doctor":
       await doctorCommand(rest);
       break;
+    case "upgrade":
+      await upgradeCommand(rest);
+      break;
+    case "uninstall":
+      await uninstallCommand(rest);
+      break;
     default:
       ui.error(`Unknown command: ${pc.bold(command)}`);
-      console.log(HELP);
+      if (!isJson()) console.log(HELP);
       process.exitCode = 1;
   }
 }
 
-main().catch((err: unknown) => {
-  ui.error(err instanceof Error ? err.message : String(err));
-  process.exitCode = 1;
-});
+main()
+  .catch((err: unknown) => {
+    ui.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    if (isJson()) console.log(jsonDocument(!process.exitCode));
+  });
@@ -1,24 +1,126 @@
 import { existsSync } from "node:fs";
-import { join } from "node:path";
-import { cancel, intro, isCancel, log, outro, text } from "@clack/prompts";
-import type { ParsedArgs } from "../utils/args.js";
-import { writeFileSafe } from "../utils/files.js";
+import { join, relative } from "node:path";
+import {
+  cancel,
+  confirm,
+  interactive,
+  intro,
+  isCancel,
+  log,
+  outro,
+  report,
+  select,
+  text,
+} from "../utils/output.js";
+import { flagList, type ParsedArgs } from "../utils/args.js";
+import {
+  loadProjectConfig,
+  projectPath,
+  type ProjectConfig,
+} from "../utils/cli-config.js";
+import {
+  DEFAULT_FIELDS,
+  FIELD_KINDS,
+  fieldLabel,
+  fieldTemplateVars,
+  parseFieldSpecs,
+  validateFieldName,
+  type FieldKind,
+  type FieldSpec,
+  type StylePreset,
+} from "../utils/fields.js";
+import { printPlan } from "../utils/diff.js";
+import {
+  readTextSync,
+  startDryRun,
+  writeFileSafe,
+  type WriteResult,
+} from "../utils/files.js";
 import { blockNames } from "../utils/names.js";
+import {
+  manifestKey,
+  editGenerated,
+  recordGenerated,
+  type GeneratedFile,
+} from "../utils/manifest.js";
 import { registerBlock } from "../utils/registry.js";
 import { readTemplate, renderTemplate } from "../utils/templates.js";
+import { loadImportConfig } from "../utils/tsconfig.js";
 import { pc } from "../utils/ui.js";
 
+function bail(): never {
+  cancel("Cancelled.");
+  process.exit(0);
+}
+
+/** Prompt for fields one at a time; an empty name finishes the list. */
+async function promptFields(): Promise<FieldSpec[]> {
+  const fields: FieldSpec[] = [];
+  for (;;) {
+    const name = await text({
+      message: fields.length
+        ? "Another field (leave empty to finish)"
+        : "First field name (leave empty for a single heading)",
+      placeholder: fields.length ? "" : "title",
+      validate: (v) => {
+        const value = v?.trim() ?? "";
+        if (!value) return undefined;
+        if (fields.some((f) => f.name === value)) return "Already added";
+        return validateFieldName(value);
+      },
+    });
+    if (isCancel(name)) bail();
+    if (!name.trim()) break;
+
+    const kind = await select<FieldKind>({
+      message: `Kind of "${name.trim()}"`,
+      options: FIELD_KINDS.map((k) => ({ value: k, label: k })),
+    });
+    if (isCancel(kind)) bail();
+
+    const required = await confirm({
+      message: "Required?",
+      initialValue: false,
+    });
+    if (isCancel(required)) bail();
+
+    fields.push({
+      name: name.trim(),
+      kind,
+      label: fieldLabel(name.trim()),
+      required,
+    });
+  }
+  return fields.length ? fields : DEFAULT_FIELDS;
+}
+
+const COMPONENT_TEMPLATES: Record<StylePreset, string> = {
+  "css-modules": "Component.tsx.tpl",
+  tailwind: "Component.tailwind.tsx.tpl",
+  none: "Component.plain.tsx.tpl",
+};
+
+/** A block template, from the project's templatesDir when it overrides it. */
+function blockTemplate(config: ProjectConfig, name: string): string {
+  const own = config.templatesDir && join(config.templatesDir, name);
+  return own && existsSync(own)
+    ? readTextSync(own)
+    : readTemplate("block", name);
+}
+
 export async function addBlockCommand(args: ParsedArgs): Promise<void> {
   const cwd = process.cwd();
-  const base = existsSync(join(cwd, "src", "cmssy", "blocks.ts"))
-    ? join(cwd, "src")
-    : cwd;
-  const blocksFile = join(base, "cmssy", "blocks.ts");
+  const config = loadProjectConfig(cwd, args.flags);
+  const blocksFile = config.registryFile;
+  const registryName = projectPath(config, blocksFile);
+
+  const dryRun = Boolean(args.flags["dry-run"]);
+  if (dryRun) startDryRun();
 
   intro(pc.bold("cmssy add block"));
 
   if (!existsSync(blocksFile)) {
-    log.error("No cmssy/blocks.ts found - run `cmssy init` first.");
+    log.error(`No ${registryName} found - run \`cmssy init\` first.`);
     process.exitCode = 1;
     return;
   }
@@ -30,37 +132,55 @@ export async function addBlockCommand(args: ParsedArgs): Promise<void> {
       placeholder: "feature-grid",
       validate: (v) => (v?.trim() ? undefined : "Required"),
     });
-    if (isCancel(answer)) {
-      cancel("Cancelled.");
-      process.exit(0);
-    }
+    if (isCancel(answer)) bail();
     input = answer.trim();
   }
 
   const names = blockNames(input);
+  const specs = flagList(args.flags.field);
+  const fields = specs.length
+    ? parseFieldSpecs(specs)
+    : interactive()
+      ? await promptFields()
+      : DEFAULT_FIELDS;
   const vars = {
     type: names.type,
     camel: names.camel,
     Pascal: names.Pascal,
     Label: names.Label,
+    ...fieldTemplateVars(fields, config.style),
   };
+  // Templates without a stylesheet import can open on an empty imports line.
+  const render = (template: string) =>
+    renderTemplate(blockTemplate(config, template), vars).replace(/^\n+/, "");
 
-  const dir = join(base, "blocks", names.type);
-  const blockTs = renderTemplate(readTemplate("block", "block.ts.tpl"), vars);
-  const componentTsx = renderTemplate(
-    readTemplate("block", "Component.tsx.tpl"),
-    vars,
-  );
-  const componentCss = renderTemplate(
-    readTemplate("block", "Component.module.css.tpl"),
-    vars,
-  );
-
-  const results = [
-    await writeFileSafe(join(dir, "block.ts"), blockTs),
-    await writeFileSafe(join(dir, `${names.Pascal}.tsx`), componentTsx),
-    await writeFileSafe(join(dir, `${names.Pascal}.module.css`), componentCss),
+  const dir = join(config.blocksDir, names.type);
+  const component = COMPONENT_TEMPLATES[config.style];
+  const files: GeneratedFile[] = [
+    {
+      path: join(dir, "block.ts"),
+      template: "block/block.ts.tpl",
+      content: render("block.ts.tpl"),
+    },
+    {
+      path: join(dir, `${names.Pascal}.tsx`),
+      template: `block/${component}`,
+      content: render(component),
+    },
   ];
+  if (config.style === "css-modules") {
+    files.push({
+      path: join(dir, `${names.Pascal}.module.css`),
+      template: "block/Component.module.css.tpl",
+      content: render("Component.module.css.tpl"),
+    });
+  }
+  const results: WriteResult[] = [];
+  for (const f of files) results.push(await writeFileSafe(f.path, f.content));
+  await recordGenerated(
+    cwd,
+    files.filter((_, i) => results[i] !== "skipped"),
+  );
 
   if (results.includes("skipped")) {
     log.warn(
@@ -68,19 +188,40 @@ export async function addBlockCommand(args: ParsedArgs): Promise<void> {
     );
   } else if (results.includes("written")) {
     log.success(
-      `Created blocks/${names.type}/ (block.ts + ${names.Pascal}.tsx + ${names.Pascal}.module.css)`,
+      `Created ${projectPath(config, dir)}/ (${files.map((f) => relative(dir, f.path)).join(" + ")})`,
     );
   } else {
     log.info(`Block "${names.type}" already up to date.`);
   }
 
-  const registered = await registerBlock(blocksFile, names.camel, names.type);
+  const registered = await editGenerated(cwd, [blocksFile], () =>
+    registerBlock(
+      blocksFile,
+      names.camel,
+      names.type,
+      loadImportConfig(cwd),
+      config.blocksDir,
+    ),
+  );
   log.info(
     registered
-      ? `Registered ${names.camel}Block in cmssy/blocks.ts`
+      ? `Registered ${names.camel}Block in ${registryName}`
       : `${names.camel}Block already registered`,
   );
+  report({
+    block: { type: names.type, export: `${names.camel}Block` },
+    files: files.map((f, i) => ({
+      path: manifestKey(cwd, f.path),
+      result: results[i],
+    })),
+    registered,
+  });
 
+  if (dryRun) {
+    printPlan(cwd);
+    outro("Dry run - nothing written.");
+    return;
+  }
   outro(
     `Added "${names.type}". Edit its component, then use it in the editor.`,
   );
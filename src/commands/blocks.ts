@@ -0,0 +1,85 @@
+import { existsSync } from "node:fs";
+import { relative, sep } from "node:path";
+import { intro, isJson, log, outro, report } from "../utils/output.js";
+import type { ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig, projectPath } from "../utils/cli-config.js";
+import { inventoryBlocks, type BlockEntry } from "../utils/inventory.js";
+import { loadImportConfig } from "../utils/tsconfig.js";
+import { formatTable, pc, ui } from "../utils/ui.js";
+
+function fieldsCell(entry: BlockEntry): string {
+  const fields = entry.definition?.fields ?? [];
+  if (!fields.length) return pc.dim("-");
+  return fields
+    .map((f) => `${f.name}:${f.kind}${f.required ? "!" : ""}`)
+    .join(", ");
+}
+
+function row(entry: BlockEntry, blocksName: string): string[] {
+  const def = entry.definition;
+  const missing = pc.red(entry.file ? "no defineBlock" : "unresolved");
+  return [
+    entry.exportName,
+    def ? (def.type ?? pc.dim("?")) : missing,
+    def?.label ?? pc.dim("-"),
+    entry.folder
+      ? `${blocksName}/${entry.folder}`
+      : pc.dim(entry.specifier ?? "-"),
+    fieldsCell(entry),
+  ];
+}
+
+export async function blocksCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const config = loadProjectConfig(cwd, args.flags);
+  const blocksFile = config.registryFile;
+  const registryName = projectPath(config, blocksFile);
+  const blocksName = projectPath(config, config.blocksDir);
+
+  if (!existsSync(blocksFile)) {
+    ui.error(`No ${registryName} found - run \`cmssy init\` first.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const inventory = inventoryBlocks(
+    config.blocksDir,
+    blocksFile,
+    loadImportConfig(cwd),
+  );
+
+  if (isJson()) {
+    const toPosix = (p: string) => relative(cwd, p).split(sep).join("/");
+    report({
+      registry: toPosix(blocksFile),
+      blocks: inventory.blocks.map((b) => ({
+        export: b.exportName,
+        type: b.definition?.type ?? null,
+        label: b.definition?.label ?? null,
+        folder: b.folder,
+        file: b.file ? toPosix(b.file) : null,
+        fields: b.definition?.fields ?? [],
+      })),
+      unregistered: inventory.unregistered,
+    });
+    return;
+  }
+
+  intro(pc.bold("cmssy blocks"));
+  if (inventory.blocks.length) {
+    const header = ["Export", "Type", "Label", "Folder", "Fields"].map((h) =>
+      pc.bold(h),
+    );
+    console.log(
+      formatTable([header, ...inventory.blocks.map((b) => row(b, blocksName))]),
+    );
+  } else {
+    log.info("The registry has no blocks yet.");
+  }
+  for (const folder of inventory.unregistered) {
+    log.warn(
+      `${blocksName}/${folder} is not registered - add it to ${registryName} or run \`cmssy remove block ${folder}\``,
+    );
+  }
+  outro(`${inventory.blocks.length} registered block(s).`);
+}
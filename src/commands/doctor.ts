@@ -1,15 +1,129 @@
 import { existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
-import { intro, outro } from "@clack/prompts";
-import type { ParsedArgs } from "../utils/args.js";
-import { readPackageJson } from "../utils/project.js";
-import { pc } from "../utils/ui.js";
+import { basename, extname, join, relative, sep } from "node:path";
+import {
+  cancel,
+  confirm,
+  interactive,
+  intro,
+  isCancel,
+  isJson,
+  log,
+  note,
+  outro,
+  report,
+} from "../utils/output.js";
+import { flagString, type ParsedArgs } from "../utils/args.js";
+import { lintBlocks } from "../utils/block-lint.js";
+import {
+  loadProjectConfig,
+  projectPath,
+  type ProjectConfig,
+} from "../utils/cli-config.js";
+import {
+  compareVersions,
+  rangeFloor,
+  satisfiesCaret,
+} from "../utils/codemods.js";
+import {
+  CMSSY_DEPS,
+  CMSSY_ENV_KEYS,
+  HEADLESS_SETTINGS_HINT,
+  SDK_COMPATIBILITY,
+} from "../utils/constants.js";
+import { resolveWorkspace } from "../utils/delivery.js";
+import { ENV_MODES, envFiles, resolveEnv, type EnvMode } from "../utils/env.js";
+import { writeFileSafe, writeText } from "../utils/files.js";
+import { importSpecifiers } from "../utils/imports.js";
+import { installedPackage } from "../utils/installed.js";
+import { inventoryBlocks, parseBlockDefinitions } from "../utils/inventory.js";
+import {
+  MANIFEST_FILE,
+  manifestStatus,
+  readManifest,
+  editGenerated,
+  recordGenerated,
+  type FileState,
+} from "../utils/manifest.js";
+import {
+  CMSSY_IMAGE_HOST,
+  findNextConfig,
+  patchNextConfig,
+  remotePatternStatus,
+} from "../utils/next-config.js";
+import {
+  composeMiddleware,
+  findMiddlewareFiles,
+  loadedMiddleware,
+  missingEditLogic,
+} from "../utils/middleware.js";
+import { blockNames } from "../utils/names.js";
+import {
+  DRAFT_ROUTE,
+  EDIT_PARAM,
+  probeDraftRoute,
+  probeEditCsp,
+} from "../utils/online.js";
+import { MIDDLEWARE_TEMPLATE, renderOverlay } from "../utils/overlay.js";
+import {
+  describeInstall,
+  ensureDependencies,
+  installCommand,
+  setDependencyVersions,
+  usesPnp,
+} from "../utils/pkg.js";
+import { hasDep, nextMajorVersion, readPackageJson } from "../utils/project.js";
+import {
+  CATCH_ALL_DIR,
+  describeConflict,
+  findCmssyMount,
+  findRouteConflicts,
+} from "../utils/routes.js";
+import {
+  registerBlock,
+  RegistryError,
+  unregisterBlock,
+} from "../utils/registry.js";
+import {
+  importPath,
+  loadImportConfig,
+  matchAlias,
+  resolveImport,
+  type ImportConfig,
+} from "../utils/tsconfig.js";
+import { pc, ui } from "../utils/ui.js";
+import { wiringIssues, type WiringOptions } from "../utils/wiring.js";
+import { runLink } from "./link.js";
 
 type Status = "pass" | "warn" | "fail";
+
+/** A repair `doctor --fix` can apply for a check that didn't pass. */
+interface Fix {
+  /** what it does, as an action: "Write cmssy/editor.tsx from the template" */
+  description: string;
+  apply(): Promise<void>;
+  /** printed once after the fixes ran, e.g. to install changed deps */
+  followUp?: string;
+}
+
 interface Check {
   label: string;
   status: Status;
   hint?: string;
+  fix?: Fix;
+}
+
+/** What the checks (and their fixes) need to know about the project. */
+interface Project {
+  cwd: string;
+  config: ProjectConfig;
+  /** where app/, cmssy/ and blocks/ live: the project root or src/ */
+  base: string;
+  srcDir: boolean;
+  mount: string;
+  imports: ImportConfig;
+  flags: ParsedArgs["flags"];
+  /** init templates some check already offers to write, by template */
+  templateFixes: Map<string, Fix>;
 }
 
 const MARK: Record<Status, string> = {
@@ -18,93 +132,864 @@ const MARK: Record<Status, string> = {
   fail: pc.red("✗"),
 };
 
-export async function doctorCommand(_args: ParsedArgs): Promise<void> {
-  const cwd = process.cwd();
-  const base = existsSync(join(cwd, "src", "cmssy", "blocks.ts"))
-    ? join(cwd, "src")
-    : cwd;
+function bail(): never {
+  cancel("Cancelled.");
+  process.exit(0);
+}
 
-  intro(pc.bold("cmssy doctor"));
+function posix(cwd: string, p: string): string {
+  return relative(cwd, p).split(sep).join("/");
+}
+
+/** Write one init template (as init renders it here) if its file is missing. */
+function templateFix(project: Project, template: string, file: string): Fix {
+  const fix: Fix = {
+    description: `Write ${file} from the cmssy template`,
+    async apply() {
+      const { cwd, config, srcDir, mount } = project;
+      const rendered = renderOverlay(cwd, srcDir, {
+        mount,
+        blocksDir: config.blocksDir,
+        registryFile: config.registryFile,
+      }).find((f) => f.template === template);
+      if (!rendered) return;
+      const result = await writeFileSafe(rendered.path, rendered.content);
+      if (result === "written") await recordGenerated(cwd, [rendered]);
+    },
+  };
+  project.templateFixes.set(template, fix);
+  return fix;
+}
+
+/**
+ * Every alias-style import in the wiring files (`@/x`, `~/x`, `#/x` or any
+ * configured `paths` prefix) must resolve to a file through the project's
+ * tsconfig. Returns null when nothing uses an alias.
+ */
+function checkAliases(
+  cwd: string,
+  files: string[],
+  imports: ImportConfig,
+): Check | null {
+  let used = 0;
+  const broken: string[] = [];
+  for (const file of files) {
+    for (const spec of importSpecifiers(readFileSync(file, "utf8"))) {
+      const alias = matchAlias(spec, imports);
+      if (!alias && !/^[~#@]\//.test(spec)) continue;
+      used++;
+      if (resolveImport(spec, file, imports)) continue;
+      const where = relative(cwd, file).split(sep).join("/");
+      const prefix = alias?.prefix ?? spec.slice(0, 2);
+      const reason = alias
+        ? `${prefix}* -> ${alias.targets
+            .map((t) => relative(cwd, t).split(sep).join("/") || ".")
+            .join(", ")}`
+        : `no "${prefix}*" in ${imports.configFile ? relative(cwd, imports.configFile) : "tsconfig.json"} paths`;
+      broken.push(`${spec} in ${where} (${reason})`);
+    }
+  }
+  if (!used) return null;
+  return broken.length
+    ? {
+        label: "import aliases resolve",
+        status: "warn",
+        hint: broken.join("; "),
+      }
+    : { label: "import aliases resolve", status: "pass" };
+}
+
+/** An existing wiring file, checked for the calls and exports edit mode needs. */
+function wiringCheck(
+  label: string,
+  template: string,
+  file: string,
+  opts: WiringOptions = {},
+): Check {
+  const issues = wiringIssues(template, readFileSync(file, "utf8"), file, opts);
+  if (!issues.length) return { label, status: "pass" };
+  return {
+    label,
+    status: issues.some((i) => i.severity === "fail") ? "fail" : "warn",
+    hint: issues.map((i) => i.message).join("; "),
+  };
+}
+
+/**
+ * The proxy/middleware file Next actually loads for this project's version
+ * must exist and carry the cmssy edit-mode logic; having both files is
+ * flagged since only one of them runs.
+ */
+function checkMiddleware(project: Project): {
+  checks: Check[];
+  file: string | null;
+} {
+  const { cwd, base, imports } = project;
+  const files = findMiddlewareFiles(base);
+  const major = nextMajorVersion(cwd);
+  const loaded = loadedMiddleware(files, major);
+  const rel = (p: string) => posix(cwd, p);
+  const version = major === null ? "Next" : `Next ${major}`;
   const checks: Check[] = [];
 
-  const required: Array<[string, string]> = [
-    ["cmssy.config.ts", join(cwd, "cmssy.config.ts")],
-    ["proxy.ts", join(cwd, "proxy.ts")],
-    ["app/[[...path]]/page.tsx", join(base, "app", "[[...path]]", "page.tsx")],
-    ["app/api/draft/route.ts", join(base, "app", "api", "draft", "route.ts")],
-    ["cmssy/blocks.ts", join(base, "cmssy", "blocks.ts")],
-    ["cmssy/editor.tsx", join(base, "cmssy", "editor.tsx")],
-  ];
-  for (const [label, p] of required) {
-    checks.push(
-      existsSync(p)
-        ? { label, status: "pass" }
-        : { label, status: "fail", hint: "missing - run `cmssy init`" },
-    );
+  if (files.proxy && files.middleware) {
+    checks.push({
+      label: "one proxy / middleware file",
+      status: "warn",
+      hint: `both ${rel(files.proxy)} and ${rel(files.middleware)} exist - ${version} loads ${loaded.file ? rel(loaded.file) : "neither"}; merge them`,
+    });
+  }
+  if (!loaded.file) {
+    const ignored = files.proxy ?? files.middleware;
+    const name = `${loaded.kind}.ts`;
+    checks.push({
+      label: name,
+      status: "fail",
+      hint: ignored
+        ? `${version} doesn't load ${rel(ignored)} - run \`cmssy init\` to add ${name}`
+        : "missing - run `cmssy init`",
+      fix: templateFix(project, "init/proxy.ts", rel(join(base, name))),
+    });
+    return { checks, file: null };
+  }
+
+  const file = loaded.file;
+  const label = rel(file);
+  const source = readFileSync(file, "utf8");
+  const missing = missingEditLogic(source, file);
+  const composed =
+    missing.length > 0
+      ? composeMiddleware(
+          source,
+          file,
+          importPath(file, join(base, "cmssy.config"), imports),
+        )
+      : null;
+  checks.push(
+    missing.length === 0
+      ? wiringCheck(label, MIDDLEWARE_TEMPLATE, file)
+      : {
+          label: `cmssy edit mode in ${label}`,
+          status: "fail",
+          hint: `doesn't use ${missing.join(", ")} - run \`cmssy init\` to wrap it`,
+          fix:
+            composed !== null && composed !== source
+              ? {
+                  description: `Wrap ${label} with cmssy edit mode`,
+                  apply: () => writeText(file, composed),
+                }
+              : undefined,
+        },
+  );
+  return { checks, file };
+}
+
+/** next/image must be allowed to load media from the cmssy asset host. */
+function checkRemotePattern(cwd: string): Check {
+  const label = `next.config allows ${CMSSY_IMAGE_HOST} images`;
+  const file = findNextConfig(cwd);
+  if (!file) {
+    return {
+      label,
+      status: "warn",
+      hint: "no next.config.* - run `cmssy init`",
+    };
+  }
+  const status = remotePatternStatus(
+    readFileSync(join(cwd, file), "utf8"),
+    file,
+  );
+  if (status === "present") return { label, status: "pass" };
+  if (status === "missing") {
+    return {
+      label,
+      status: "warn",
+      hint: `not in images.remotePatterns of ${file} - run \`cmssy init\` to add it`,
+      fix: {
+        description: `Add ${CMSSY_IMAGE_HOST} to images.remotePatterns in ${file}`,
+        apply: async () => {
+          await patchNextConfig(join(cwd, file));
+        },
+      },
+    };
   }
+  return {
+    label,
+    status: "warn",
+    hint: `couldn't follow ${file}'s exported config - check images.remotePatterns by hand`,
+  };
+}
 
+/** Generated files recorded in `.cmssy/manifest.json`, and whether they were edited since. */
+function checkManifest(project: Project): Check {
+  const { cwd } = project;
+  if (!readManifest(cwd)) {
+    return {
+      label: MANIFEST_FILE,
+      status: "warn",
+      hint: "missing - run `cmssy init` to record the generated files",
+    };
+  }
+  const status = manifestStatus(cwd);
+  const inState = (state: FileState) => status.filter((s) => s.state === state);
+  const modified = inState("modified").map((s) => s.path);
+  const deleted = inState("deleted");
+  const pristine = status.length - modified.length - deleted.length;
+  const label = `generated files (${pristine} pristine, ${modified.length} modified)`;
+  if (!deleted.length) {
+    return modified.length
+      ? { label, status: "pass", hint: `edited: ${modified.join(", ")}` }
+      : { label, status: "pass" };
+  }
+  // Only init templates can be rendered again (`add block` ones need its
+  // input), and required files already carry their own fix.
+  const restorable = deleted.filter(
+    (s) =>
+      s.entry.template.startsWith("init/") &&
+      !project.templateFixes.has(s.entry.template),
+  );
+  return {
+    label,
+    status: "warn",
+    hint: `deleted: ${deleted.map((s) => s.path).join(", ")} - run \`cmssy init\` to restore them`,
+    fix: restorable.length
+      ? {
+          description: `Restore ${restorable.map((s) => s.path).join(", ")} from the cmssy templates`,
+          async apply() {
+            const { config, srcDir, mount } = project;
+            const wanted = new Set(restorable.map((s) => s.entry.template));
+            const files = renderOverlay(cwd, srcDir, {
+              mount,
+              blocksDir: config.blocksDir,
+              registryFile: config.registryFile,
+            }).filter((f) => wanted.has(f.template));
+            for (const f of files) await writeFileSafe(f.path, f.content);
+            await recordGenerated(cwd, files);
+          },
+        }
+      : undefined,
+  };
+}
+
+/** `@cmssy/next` and `@cmssy/react` must both be declared, at the same version. */
+function checkSdkVersions(project: Project): Check {
+  const { cwd, config } = project;
   const pkg = readPackageJson(cwd);
   const next =
     pkg?.dependencies?.["@cmssy/next"] ?? pkg?.devDependencies?.["@cmssy/next"];
   const react =
     pkg?.dependencies?.["@cmssy/react"] ??
     pkg?.devDependencies?.["@cmssy/react"];
+  const followUp = `Run ${describeInstall(installCommand(config.pm, cwd), cwd)} to install the updated @cmssy/* packages.`;
   if (!next || !react) {
-    checks.push({
+    return {
       label: "@cmssy/next + @cmssy/react installed",
       status: "fail",
       hint: "missing - add @cmssy/next and @cmssy/react",
-    });
-  } else if (next !== react) {
+      fix: pkg
+        ? {
+            description: "Add @cmssy/next and @cmssy/react to package.json",
+            apply: async () => {
+              await ensureDependencies(cwd, CMSSY_DEPS);
+            },
+            followUp,
+          }
+        : undefined,
+    };
+  }
+  if (next === react) return { label: `@cmssy/* ${next}`, status: "pass" };
+
+  // Align on the newer of the two; tags like "latest" can't be compared.
+  const [a, b] = [rangeFloor(next), rangeFloor(react)];
+  const newer = a && b ? (compareVersions(a, b) >= 0 ? next : react) : null;
+  return {
+    label: "@cmssy/* versions aligned",
+    status: "warn",
+    hint: `@cmssy/next ${next} vs @cmssy/react ${react}`,
+    fix: newer
+      ? {
+          description: `Set @cmssy/next and @cmssy/react to ${newer}`,
+          apply: async () => {
+            await setDependencyVersions(cwd, {
+              "@cmssy/next": newer,
+              "@cmssy/react": newer,
+            });
+          },
+          followUp,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * What's actually installed, not the declared ranges: each declared package
+ * is in node_modules and agrees with the lockfile, and the installed
+ * @cmssy/* line is one this CLI's templates support, on a new enough next
+ * and react.
+ */
+function checkInstalled(project: Project): Check[] {
+  const { cwd, config } = project;
+  const pkg = readPackageJson(cwd);
+  const install = `run ${describeInstall(installCommand(config.pm, cwd), cwd)}`;
+  const pnp = usesPnp(cwd);
+  const checks: Check[] = [];
+  const versions = new Map<string, string>();
+
+  for (const name of [...Object.keys(CMSSY_DEPS), "next", "react"]) {
+    if (!hasDep(pkg, name)) continue;
+    const { nodeModules, lockfile } = installedPackage(cwd, name);
+    const version = nodeModules ?? lockfile?.version;
+    if (!version) {
+      checks.push({
+        label: `${name} installed`,
+        status: "fail",
+        hint: `declared in package.json but not installed - ${install}`,
+      });
+      continue;
+    }
+    versions.set(name, version);
+    if (!nodeModules && !pnp) {
+      checks.push({
+        label: `${name} installed`,
+        status: "warn",
+        hint: `${lockfile!.file} resolves ${version}, but it isn't in node_modules - ${install}`,
+      });
+    } else if (nodeModules && lockfile && lockfile.version !== nodeModules) {
+      checks.push({
+        label: `${name} ${nodeModules} installed`,
+        status: "warn",
+        hint: `${lockfile.file} resolves ${lockfile.version}, so node_modules is stale - ${install}`,
+      });
+    } else {
+      checks.push({ label: `${name} ${version} installed`, status: "pass" });
+    }
+  }
+
+  const [next, react] = [
+    versions.get("@cmssy/next"),
+    versions.get("@cmssy/react"),
+  ];
+  if (next && react && next !== react) {
     checks.push({
-      label: "@cmssy/* versions aligned",
+      label: "installed @cmssy/* versions match",
       status: "warn",
       hint: `@cmssy/next ${next} vs @cmssy/react ${react}`,
     });
+  }
+  const sdk = next ?? react;
+  if (!sdk) return checks;
+  const row = SDK_COMPATIBILITY.find((r) => satisfiesCaret(sdk, r.sdk));
+  if (!row) {
+    const supported = SDK_COMPATIBILITY.map((r) => r.sdk).join(", ");
+    const newer =
+      compareVersions(
+        rangeFloor(sdk)!,
+        rangeFloor(SDK_COMPATIBILITY[0]!.sdk)!,
+      ) > 0;
+    checks.push({
+      label: `@cmssy/* ${sdk} supported by this CLI`,
+      status: "fail",
+      hint: `its templates are for @cmssy/* ${supported} - ${newer ? "update the CLI: npx @cmssy/cli@latest doctor" : "run `cmssy upgrade`"}`,
+    });
+    return checks;
+  }
+  const tooOld = (["next", "react"] as const).filter((peer) => {
+    const v = versions.get(peer);
+    const floor = v && rangeFloor(v);
+    return floor && compareVersions(floor, rangeFloor(row[peer])!) < 0;
+  });
+  checks.push(
+    tooOld.length
+      ? {
+          label: `@cmssy/* ${sdk} compatible`,
+          status: "fail",
+          hint: tooOld
+            .map((p) => `needs ${p} ${row[p]}+, found ${versions.get(p)}`)
+            .join("; "),
+        }
+      : {
+          label: `@cmssy/* ${sdk} compatible`,
+          status: "pass",
+          hint: `next ${row.next}+, react ${row.react}+`,
+        },
+  );
+  return checks;
+}
+
+function checkEnv(project: Project): Check[] {
+  const { cwd, flags } = project;
+  const mode = (flagString(flags.mode) ?? "development") as EnvMode;
+  // One fix for every missing key: the link prompts ask for them together.
+  const canLink =
+    interactive() ||
+    (flagString(flags.slug) !== undefined &&
+      flagString(flags.secret) !== undefined);
+  const link: Fix | undefined = canLink
+    ? {
+        description: "Set the workspace slug and draft secret in .env",
+        apply: () => runLink(cwd, flags),
+      }
+    : undefined;
+
+  const checks: Check[] = [];
+  for (const v of resolveEnv(cwd, CMSSY_ENV_KEYS, { mode })) {
+    if (v.value === undefined) {
+      checks.push({
+        label: v.key,
+        status: "warn",
+        hint: v.exampleOnly
+          ? "only set in .env.example, which Next doesn't load - run `cmssy link`"
+          : `not set in ${envFiles(mode).join(", ")} or the environment - run \`cmssy link\``,
+        fix: link,
+      });
+    } else if (!v.value) {
+      checks.push({
+        label: v.key,
+        status: "warn",
+        hint: `empty in ${v.source}, which takes precedence in ${mode}`,
+      });
+    } else {
+      checks.push({ label: v.key, status: "pass", hint: `from ${v.source}` });
+    }
+
+    const values = new Set(v.definitions.map((d) => d.value));
+    if (values.size > 1) {
+      const files = v.definitions.map((d) => d.file);
+      checks.push({
+        label: `${v.key} agrees across env files`,
+        status: "warn",
+        hint: `${files.join(", ")} set different values; ${v.source} wins in ${mode}`,
+      });
+    }
+  }
+  return checks;
+}
+
+/**
+ * `--online`: the configured workspace resolves on the delivery API and, given
+ * the dev server's `--url`, its draft route takes the draft secret and edit
+ * mode gets the CSP that lets the editor frame the site.
+ */
+async function checkOnline(project: Project): Promise<Check[]> {
+  const { cwd, flags, mount } = project;
+  const mode = (flagString(flags.mode) ?? "development") as EnvMode;
+  const env = new Map(
+    resolveEnv(cwd, [...CMSSY_ENV_KEYS, "CMSSY_API_URL"], { mode }).map((v) => [
+      v.key,
+      v.value,
+    ]),
+  );
+  const slug = env.get("CMSSY_WORKSPACE_SLUG");
+  const secret = env.get("CMSSY_DRAFT_SECRET");
+  const checks: Check[] = [];
+
+  if (!slug) {
+    checks.push({
+      label: "workspace resolves",
+      status: "warn",
+      hint: "no CMSSY_WORKSPACE_SLUG to look up",
+    });
   } else {
-    checks.push({ label: `@cmssy/* ${next}`, status: "pass" });
+    const apiUrl =
+      project.config.apiUrl ?? (env.get("CMSSY_API_URL") || undefined);
+    const lookup = await resolveWorkspace(slug, apiUrl);
+    if (lookup.status === "found") {
+      const languages = lookup.languages.map((l) =>
+        l === lookup.defaultLanguage ? `${l} (default)` : l,
+      );
+      checks.push({
+        label: `workspace "${slug}"`,
+        status: "pass",
+        hint: `${lookup.siteName ?? "unnamed site"}, languages: ${languages.join(", ") || "none"}`,
+      });
+    } else if (lookup.status === "not-found") {
+      checks.push({
+        label: `workspace "${slug}"`,
+        status: "fail",
+        hint: `no published workspace with this slug - compare CMSSY_WORKSPACE_SLUG with ${HEADLESS_SETTINGS_HINT}`,
+      });
+    } else {
+      checks.push({
+        label: `workspace "${slug}"`,
+        status: "warn",
+        hint: `couldn't reach the delivery API (${lookup.message})`,
+      });
+    }
   }
 
-  const envPath = join(cwd, ".env");
-  const env = existsSync(envPath) ? readFileSync(envPath, "utf8") : "";
-  for (const key of ["CMSSY_WORKSPACE_SLUG", "CMSSY_DRAFT_SECRET"]) {
-    const set = new RegExp(`^${key}=.+$`, "m").test(env);
+  const url = flagString(flags.url);
+  if (!url) return checks;
+  if (!secret) {
+    checks.push({
+      label: `${DRAFT_ROUTE} accepts the draft secret`,
+      status: "warn",
+      hint: "no CMSSY_DRAFT_SECRET to send",
+    });
+  } else {
+    const draft = await probeDraftRoute(url, secret);
     checks.push(
-      set
-        ? { label: key, status: "pass" }
+      draft.status === "ok"
+        ? {
+            label: `${DRAFT_ROUTE} accepts the draft secret`,
+            status: "pass",
+            hint: draft.location ? `redirects to ${draft.location}` : undefined,
+          }
         : {
-            label: key,
-            status: "warn",
-            hint: "not set in .env - run `cmssy link`",
+            label: `${DRAFT_ROUTE} accepts the draft secret`,
+            status: "fail",
+            hint:
+              draft.status === "rejected"
+                ? `the dev server rejected CMSSY_DRAFT_SECRET (${draft.httpStatus}) - restart it after changing env files`
+                : draft.status === "missing"
+                  ? `${url} has no ${DRAFT_ROUTE} route`
+                  : draft.message,
           },
     );
   }
 
-  const blocksFile = join(base, "cmssy", "blocks.ts");
-  if (existsSync(blocksFile)) {
-    const content = readFileSync(blocksFile, "utf8");
-    const refs = [...content.matchAll(/@\/blocks\/([^/]+)\/block/g)].map(
-      (m) => m[1]!,
-    );
-    const missing = refs.filter(
-      (name) => !existsSync(join(base, "blocks", name, "block.ts")),
-    );
+  const csp = await probeEditCsp(url, mount);
+  checks.push(
+    csp.status === "ok"
+      ? {
+          label: "edit mode sets CSP frame-ancestors",
+          status: "pass",
+          hint: csp.frameAncestors,
+        }
+      : {
+          label: "edit mode sets CSP frame-ancestors",
+          status: "fail",
+          hint:
+            csp.status === "missing"
+              ? `?${EDIT_PARAM}=1 got no frame-ancestors (${csp.httpStatus}) - is the proxy/middleware loaded?`
+              : csp.message,
+        },
+  );
+  return checks;
+}
+
+/** Registry imports must resolve, and every block folder should be registered. */
+function checkRegistry(project: Project, blocksFile: string): Check[] {
+  const { config, imports } = project;
+  const registryName = projectPath(config, blocksFile);
+  const blocksName = projectPath(config, config.blocksDir);
+  let inventory;
+  try {
+    inventory = inventoryBlocks(config.blocksDir, blocksFile, imports);
+  } catch (err) {
+    if (!(err instanceof RegistryError)) throw err;
+    return [
+      { label: "block registry readable", status: "fail", hint: err.message },
+    ];
+  }
+  const { blocks, unregistered } = inventory;
+  const checks: Check[] = [];
+
+  const missing = blocks.filter((b) => b.specifier && !b.file);
+  // unregisterBlock works on `<camel>Block` bindings, the ones add block writes.
+  const droppable = missing.filter((b) => /^\w+Block$/.test(b.exportName));
+  checks.push(
+    missing.length === 0
+      ? {
+          label: `block registry (${blocks.length} block(s))`,
+          status: "pass",
+        }
+      : {
+          label: "block registry imports resolve",
+          status: "fail",
+          hint: `missing block file(s): ${missing.map((b) => b.specifier).join(", ")}`,
+          fix: droppable.length
+            ? {
+                description: `Drop ${droppable.map((b) => b.exportName).join(", ")} from ${registryName}`,
+                async apply() {
+                  await editGenerated(project.cwd, [blocksFile], async () => {
+                    for (const b of droppable) {
+                      await unregisterBlock(
+                        blocksFile,
+                        b.exportName.slice(0, -"Block".length),
+                      );
+                    }
+                  });
+                },
+              }
+            : undefined,
+        },
+  );
+
+  // Static checks of the defineBlock calls themselves.
+  const problems = lintBlocks(blocks, imports, project.cwd);
+  if (!problems.length) {
+    checks.push({ label: "block definitions valid", status: "pass" });
+  }
+  for (const p of problems) {
+    const mismatch = p.kind === "folder-mismatch";
+    checks.push({
+      label: p.message,
+      status: mismatch ? "warn" : "fail",
+      hint: mismatch
+        ? "expected after `cmssy rename block --keep-type`; otherwise rename one to match"
+        : undefined,
+    });
+  }
+
+  if (unregistered.length) {
+    // registerBlock imports `<camel>Block` from <blocksDir>/<type>/block.
+    const registrable = unregistered.filter((folder) => {
+      const names = blockNames(folder);
+      const file = join(config.blocksDir, folder, "block.ts");
+      return (
+        names.type === folder &&
+        existsSync(file) &&
+        parseBlockDefinitions(readFileSync(file, "utf8"), file).some(
+          (d) => d.exportName === `${names.camel}Block`,
+        )
+      );
+    });
+    checks.push({
+      label: "every block folder registered",
+      status: "warn",
+      hint: `not in ${registryName}: ${unregistered.map((f) => `${blocksName}/${f}`).join(", ")}`,
+      fix: registrable.length
+        ? {
+            description: `Register ${registrable.map((f) => `${blocksName}/${f}`).join(", ")} in ${registryName}`,
+            async apply() {
+              await editGenerated(project.cwd, [blocksFile], async () => {
+                for (const folder of registrable) {
+                  const names = blockNames(folder);
+                  await registerBlock(
+                    blocksFile,
+                    names.camel,
+                    names.type,
+                    imports,
+                    config.blocksDir,
+                  );
+                }
+              });
+            },
+          }
+        : undefined,
+    });
+  }
+  return checks;
+}
+
+async function collectChecks(
+  cwd: string,
+  flags: ParsedArgs["flags"],
+): Promise<Check[]> {
+  const config = loadProjectConfig(cwd, flags);
+  const { base, srcDir } = config;
+  const checks: Check[] = [];
+
+  // cmssy may be mounted under a path (`cmssy init --mount`); find where,
+  // else expect it where the config says.
+  const appDir = join(base, "app");
+  const found = findCmssyMount(appDir);
+  const mount = found?.mount ?? config.mount ?? "";
+  const project: Project = {
+    cwd,
+    config,
+    base,
+    srcDir,
+    mount,
+    imports: loadImportConfig(cwd),
+    flags,
+    templateFixes: new Map(),
+  };
+  const catchAll = found
+    ? posix(base, found.page)
+    : `app/${CATCH_ALL_DIR}/page.tsx`;
+
+  const required: Array<[string, string, string]> = [
+    ["cmssy.config.ts", join(base, "cmssy.config.ts"), "init/cmssy.config.ts"],
+    [
+      mount ? `${catchAll} (mounted at ${mount})` : catchAll,
+      found?.page ?? join(appDir, CATCH_ALL_DIR, "page.tsx"),
+      `init/app/${CATCH_ALL_DIR}/page.tsx`,
+    ],
+    [
+      "app/api/draft/route.ts",
+      join(base, "app", "api", "draft", "route.ts"),
+      "init/app/api/draft/route.ts",
+    ],
+    [
+      projectPath(config, config.registryFile),
+      config.registryFile,
+      "init/cmssy/blocks.ts",
+    ],
+    [
+      "cmssy/editor.tsx",
+      join(base, "cmssy", "editor.tsx"),
+      "init/cmssy/editor.tsx",
+    ],
+  ];
+  // The editor must lazy-load the registry wherever the config puts it.
+  const wiring: WiringOptions =
+    config.registryFile === join(base, "cmssy", "blocks.ts")
+      ? {}
+      : {
+          registryName: basename(
+            config.registryFile,
+            extname(config.registryFile),
+          ),
+        };
+  for (const [label, p, template] of required) {
     checks.push(
-      missing.length === 0
-        ? { label: `block registry (${refs.length} block(s))`, status: "pass" }
+      existsSync(p)
+        ? wiringCheck(label, template, p, wiring)
         : {
-            label: "block registry imports resolve",
+            label,
             status: "fail",
-            hint: `missing block file(s): ${missing.join(", ")}`,
+            hint: "missing - run `cmssy init`",
+            fix: templateFix(project, template, posix(cwd, p)),
           },
     );
   }
 
+  const middleware = checkMiddleware(project);
+  checks.push(...middleware.checks);
+  checks.push(checkRemotePattern(cwd));
+  checks.push(checkManifest(project));
+
+  const conflicts = findRouteConflicts(appDir, mount);
+  const catchAllDir = `app${mount}/${CATCH_ALL_DIR}`;
+  checks.push(
+    conflicts.length
+      ? {
+          label: `routes beside ${catchAllDir}`,
+          status: "fail",
+          hint: `${conflicts.map((c) => describeConflict(c, mount)).join("; ")} - move them aside or re-run \`cmssy init\``,
+        }
+      : { label: `no routes collide with ${catchAllDir}`, status: "pass" },
+  );
+
+  checks.push(checkSdkVersions(project));
+  checks.push(...checkInstalled(project));
+  checks.push(...checkEnv(project));
+
+  const aliasCheck = checkAliases(
+    cwd,
+    [...required.map(([, p]) => p), middleware.file ?? ""].filter((p) =>
+      existsSync(p),
+    ),
+    project.imports,
+  );
+  if (aliasCheck) checks.push(aliasCheck);
+
+  const blocksFile = config.registryFile;
+  if (existsSync(blocksFile))
+    checks.push(...checkRegistry(project, blocksFile));
+
+  if (flags.online || flags.url !== undefined) {
+    checks.push(...(await checkOnline(project)));
+  }
+  return checks;
+}
+
+function printChecks(checks: Check[]): void {
+  if (isJson()) {
+    report({
+      checks: checks.map((c) => ({
+        label: c.label,
+        status: c.status,
+        hint: c.hint ?? null,
+        fixable: Boolean(c.fix),
+      })),
+    });
+    return;
+  }
   for (const c of checks) {
     console.log(
       `  ${MARK[c.status]} ${c.label}${c.hint ? pc.dim(` - ${c.hint}`) : ""}`,
     );
   }
+}
+
+/** Distinct fixes of the checks that didn't pass, in check order. */
+function fixesOf(checks: Check[]): Fix[] {
+  return [
+    ...new Set(
+      checks.flatMap((c) => (c.status !== "pass" && c.fix ? [c.fix] : [])),
+    ),
+  ];
+}
+
+/** Apply each fix once it's confirmed (or straight away with --yes). */
+async function applyFixes(fixes: Fix[], yes: boolean): Promise<Fix[]> {
+  const applied: Fix[] = [];
+  for (const fix of fixes) {
+    if (!yes) {
+      const ok = await confirm({ message: `${fix.description}?` });
+      if (isCancel(ok)) bail();
+      if (!ok) continue;
+    }
+    try {
+      await fix.apply();
+      applied.push(fix);
+    } catch (err) {
+      if (!(err instanceof RegistryError)) throw err;
+      log.error(`${fix.description} failed: ${err.message}`);
+    }
+  }
+  return applied;
+}
+
+function isUrl(value: string): boolean {
+  try {
+    return Boolean(new URL(value));
+  } catch {
+    return false;
+  }
+}
+
+export async function doctorCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const { flags } = args;
+  const yes = Boolean(flags.yes || flags.y);
+
+  intro(pc.bold("cmssy doctor"));
+  const mode = flagString(flags.mode);
+  if (mode !== undefined && !ENV_MODES.includes(mode as EnvMode)) {
+    log.error(`--mode must be one of: ${ENV_MODES.join(", ")}.`);
+    process.exitCode = 1;
+    return;
+  }
+  const url = flagString(flags.url);
+  if (url !== undefined && !isUrl(url)) {
+    log.error(
+      "--url must be the dev server's URL, like http://localhost:3000.",
+    );
+    process.exitCode = 1;
+    return;
+  }
+  let checks = await collectChecks(cwd, flags);
+  printChecks(checks);
+
+  const fixes = fixesOf(checks);
+  if (!flags.fix) {
+    if (fixes.length) {
+      ui.dim(
+        `\n  ${fixes.length} of these can be fixed with \`cmssy doctor --fix\`.`,
+      );
+    }
+  } else if (!fixes.length) {
+    log.info("Nothing doctor can fix automatically.");
+  } else if (!yes && !interactive()) {
+    log.warn("Can't prompt here - re-run with --fix --yes to apply the fixes.");
+  } else {
+    const applied = await applyFixes(fixes, yes);
+    report({ fixed: applied.map((f) => f.description) });
+    if (applied.length) {
+      note(applied.map((f) => f.description).join("\n"), "Fixed");
+      for (const followUp of new Set(applied.map((f) => f.followUp))) {
+        if (followUp) log.info(followUp);
+      }
+      log.step("Checking again");
+      checks = await collectChecks(cwd, flags);
+      printChecks(checks);
+    } else {
+      log.info("No fixes applied.");
+    }
+  }
 
   const failed = checks.filter((c) => c.status === "fail").length;
   const warned = checks.filter((c) => c.status === "warn").length;
@@ -1,28 +1,200 @@
-import { join, resolve } from "node:path";
-import { intro, log, note, outro } from "@clack/prompts";
-import type { ParsedArgs } from "../utils/args.js";
+import { join, relative, resolve } from "node:path";
+import {
+  cancel,
+  interactive,
+  intro,
+  isCancel,
+  log,
+  note,
+  outro,
+  report,
+  select,
+  text,
+} from "../utils/output.js";
+import { flagString, type ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig } from "../utils/cli-config.js";
 import { CMSSY_DEPS, DOCS_URL } from "../utils/constants.js";
-import { applyOverlay } from "../utils/overlay.js";
-import { detectProject } from "../utils/project.js";
+import { printPlan, unifiedDiff } from "../utils/diff.js";
+import { movePath, readText, startDryRun } from "../utils/files.js";
+import { manifestKey, recordGenerated } from "../utils/manifest.js";
+import { CMSSY_IMAGE_HOST } from "../utils/next-config.js";
+import {
+  applyOverlay,
+  CONFLICT_ACTIONS,
+  resolveConflict,
+  SIDECAR_SUFFIX,
+  type Conflict,
+  type ConflictAction,
+  type OverlayReport,
+} from "../utils/overlay.js";
+import { detectProject, hasDep, readPackageJson } from "../utils/project.js";
+import {
+  asidePath,
+  CATCH_ALL_DIR,
+  describeConflict,
+  findCmssyMount,
+  findRouteConflicts,
+  normalizeMount,
+} from "../utils/routes.js";
 import {
-  detectPackageManager,
+  addCommands,
+  declaredDependencies,
+  describeInstall,
   ensureDependencies,
-  installArgs,
   run,
-  type PackageManager,
 } from "../utils/pkg.js";
 import { pc, ui } from "../utils/ui.js";
+import {
+  findWorkspace,
+  workspacePackages,
+  workspacePath,
+} from "../utils/workspace.js";
 import { runLink } from "./link.js";
 
-const PMS = new Set<PackageManager>(["npm", "pnpm", "yarn", "bun"]);
+function bail(): never {
+  cancel("Cancelled.");
+  process.exit(0);
+}
+
+/** Ask what to do with one conflicting file; "diff" shows it and asks again. */
+async function askConflict(conflict: Conflict): Promise<ConflictAction> {
+  for (;;) {
+    const choice = await select<ConflictAction | "diff">({
+      message: `${conflict.file} differs from the cmssy template`,
+      options: [
+        { value: "diff", label: "View diff" },
+        { value: "keep", label: "Keep mine" },
+        { value: "overwrite", label: "Overwrite with the template" },
+        {
+          value: "sidecar",
+          label: `Write ${conflict.file}${SIDECAR_SUFFIX} next to it`,
+        },
+      ],
+      initialValue: "diff",
+    });
+    if (isCancel(choice)) bail();
+    if (choice !== "diff") return choice;
+    const current = await readText(conflict.path);
+    const diff = unifiedDiff(conflict.file, current, conflict.template, {
+      color: true,
+    });
+    console.log(`\n${diff}\n`);
+  }
+}
+
+/**
+ * Settle files init skipped: the --on-conflict action for all of them, else a
+ * prompt per file in a terminal, else keep them as they are.
+ */
+async function resolveConflicts(
+  report: OverlayReport,
+  mode: ConflictAction | undefined,
+): Promise<void> {
+  const ask = !mode && interactive();
+  for (const conflict of [...report.conflicts]) {
+    const action = mode ?? (ask ? await askConflict(conflict) : "keep");
+    await resolveConflict(report, conflict, action);
+    if (action === "overwrite") log.success(`Overwrote ${conflict.file}`);
+    if (action === "sidecar") {
+      log.info(
+        `Wrote ${conflict.file}${SIDECAR_SUFFIX} - merge it into ${conflict.file} by hand`,
+      );
+    }
+  }
+}
+
+type RouteChoice = "move" | "mount" | "keep";
 
-function choosePm(
-  flags: ParsedArgs["flags"],
-  targetDir: string,
-): PackageManager {
-  const flag = typeof flags.pm === "string" ? flags.pm : undefined;
-  if (flag && PMS.has(flag as PackageManager)) return flag as PackageManager;
-  return detectPackageManager(targetDir);
+/** What `--on-route-conflict` can say, for runs that can't be asked. */
+const ROUTE_ACTIONS: RouteChoice[] = ["move", "keep"];
+
+/** Ask for a mount path until one is valid and free of conflicts itself. */
+async function askMount(appDir: string): Promise<string> {
+  for (;;) {
+    const answer = await text({
+      message: "Mount cmssy pages under which path?",
+      placeholder: "/pages",
+      validate: (v) =>
+        normalizeMount(v ?? "")
+          ? undefined
+          : "Use a static path like /pages or /marketing/site",
+    });
+    if (isCancel(answer)) bail();
+    const mount = normalizeMount(answer)!;
+    const conflicts = findRouteConflicts(appDir, mount);
+    if (!conflicts.length) return mount;
+    for (const c of conflicts) log.warn(describeConflict(c, mount));
+  }
+}
+
+/**
+ * Explain routes that collide with the catch-all at `mount` and let the user
+ * (or `--on-route-conflict`) move them aside, keep them, or mount cmssy under
+ * another path. Returns the mount path to use ("" for the site root), or
+ * null when nobody can choose.
+ */
+async function settleRouteConflicts(
+  appDir: string,
+  mount: string,
+  action: RouteChoice | undefined,
+): Promise<string | null> {
+  const conflicts = findRouteConflicts(appDir, mount);
+  if (!conflicts.length) return mount;
+  report({
+    routeConflicts: conflicts.map((c) => ({
+      path: `app/${c.path}`,
+      kind: c.kind,
+    })),
+  });
+  const described = conflicts
+    .map((c) => `  ${describeConflict(c, mount)}`)
+    .join("\n");
+  const heading = `These routes collide with cmssy's app${mount}/${CATCH_ALL_DIR}:`;
+
+  if (!action && !interactive()) {
+    log.error(
+      `${heading}\n${described}\nRe-run with --on-route-conflict move (or keep), or --mount <path>.`,
+    );
+    return null;
+  }
+  log.warn(`${heading}\n${described}`);
+
+  let choice = action;
+  if (!choice) {
+    const answer = await select<RouteChoice>({
+      message: "How should cmssy fit in?",
+      options: [
+        {
+          value: "move",
+          label: "Move the conflicting routes aside",
+          hint: conflicts
+            .map((c) => `${c.path} -> ${relative(appDir, asidePath(c))}`)
+            .join(", "),
+        },
+        {
+          value: "mount",
+          label: mount
+            ? "Mount cmssy pages under another path"
+            : "Mount cmssy pages under a path instead",
+        },
+        { value: "keep", label: "Leave them - I'll resolve it myself" },
+      ],
+    });
+    if (isCancel(answer)) bail();
+    choice = answer;
+  }
+
+  if (choice === "mount") return askMount(appDir);
+  if (choice === "move") {
+    for (const c of conflicts) {
+      const to = asidePath(c);
+      await movePath(c.abs, to);
+      log.success(`Moved app/${c.path} to app/${relative(appDir, to)}`);
+    }
+  } else {
+    ui.dim("  Resolve these before `next build`, or re-run init to move them.");
+  }
+  return mount;
 }
 
 export async function initCommand(args: ParsedArgs): Promise<void> {
@@ -30,12 +202,56 @@ export async function initCommand(args: ParsedArgs): Promise<void> {
   const dirArg = args.positionals[0];
   const targetDir = dirArg ? resolve(cwd, dirArg) : cwd;
   const { flags } = args;
+  const dryRun = Boolean(flags["dry-run"]);
+  if (dryRun) startDryRun();
 
   intro(pc.bold("cmssy init"));
 
+  const onConflict = flags.force
+    ? "overwrite"
+    : flagString(flags["on-conflict"]);
+  if (
+    onConflict !== undefined &&
+    !CONFLICT_ACTIONS.includes(onConflict as ConflictAction)
+  ) {
+    log.error(`--on-conflict must be one of: ${CONFLICT_ACTIONS.join(", ")}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const onRouteConflict = flagString(flags["on-route-conflict"]);
+  if (
+    onRouteConflict !== undefined &&
+    !ROUTE_ACTIONS.includes(onRouteConflict as RouteChoice)
+  ) {
+    log.error(
+      `--on-route-conflict must be one of: ${ROUTE_ACTIONS.join(", ")}.`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const config = loadProjectConfig(targetDir, flags);
+
   const info = detectProject(targetDir);
   if (!info.isNextAppRouter) {
     log.error("No Next.js App Router project found here.");
+    const ws = findWorkspace(targetDir);
+    if (ws?.root === targetDir) {
+      const apps = workspacePackages(ws).filter(
+        (p) => detectProject(p.dir).isNextAppRouter,
+      );
+      if (apps.length) {
+        ui.dim("This is a workspace root. Pick the app to wire with --filter:");
+        for (const app of apps) {
+          ui.dim(
+            `  cmssy init --filter ${app.name ?? workspacePath(ws, app.dir)}`,
+          );
+        }
+        process.exitCode = 1;
+        return;
+      }
+    }
     ui.dim(
       "cmssy init wires an existing Next.js App Router app. Create one first:",
     );
@@ -46,28 +262,95 @@ export async function initCommand(args: ParsedArgs): Promise<void> {
   }
 
   log.info("Adding cmssy wiring to your Next.js app.");
-  const pm = choosePm(flags, targetDir);
+  const { pm } = config;
   const srcDir = info.appDir === join(targetDir, "src", "app");
 
-  const report = await applyOverlay(targetDir, srcDir);
-  if (report.written.length) {
-    log.success(`Added ${report.written.length} file(s)`);
+  // An earlier init's mount sticks unless --mount or the config says otherwise.
+  const mount = await settleRouteConflicts(
+    info.appDir!,
+    config.mount ?? findCmssyMount(info.appDir!)?.mount ?? "",
+    onRouteConflict as RouteChoice | undefined,
+  );
+  if (mount === null) {
+    process.exitCode = 1;
+    return;
+  }
+  if (mount) log.info(`cmssy pages mount under ${mount}`);
+
+  const overlay = await applyOverlay(targetDir, srcDir, {
+    mount,
+    blocksDir: config.blocksDir,
+    registryFile: config.registryFile,
+  });
+  await resolveConflicts(overlay, onConflict as ConflictAction | undefined);
+  await recordGenerated(targetDir, overlay.generated);
+  if (overlay.written.length) {
+    log.success(`Added ${overlay.written.length} file(s)`);
   }
-  if (report.skipped.length) {
-    log.warn(`Skipped existing: ${report.skipped.join(", ")}`);
+  for (const file of overlay.patched) {
+    log.success(
+      file.startsWith("next.config.")
+        ? `Added ${CMSSY_IMAGE_HOST} to images.remotePatterns in ${file}`
+        : `Wrapped ${file} with cmssy edit mode`,
+    );
+  }
+  if (overlay.skipped.length) {
+    log.warn(`Skipped existing: ${overlay.skipped.join(", ")}`);
+    if (overlay.conflicts.length && !onConflict) {
+      ui.dim(
+        "  Re-run with --on-conflict=overwrite or --on-conflict=sidecar to take the templates.",
+      );
+    }
   }
 
-  const added = await ensureDependencies(targetDir, CMSSY_DEPS);
-  if (added.length) log.success(`Added deps: ${added.join(", ")}`);
+  // With an install to run, `pm add` declares the deps as it installs them;
+  // otherwise they go straight into package.json.
+  const skipInstall = Boolean(flags["skip-install"]);
+  const pkg = readPackageJson(targetDir);
+  const deps = Object.entries(CMSSY_DEPS).map(
+    ([name, range]) =>
+      declaredDependencies(pkg, [name])[0] ?? { name, range, dev: false },
+  );
+  const added =
+    skipInstall || dryRun
+      ? await ensureDependencies(targetDir, CMSSY_DEPS)
+      : deps.filter((d) => !hasDep(pkg, d.name)).map((d) => d.name);
+  if (added.length && (skipInstall || dryRun)) {
+    log.success(`Added deps: ${added.join(", ")}`);
+  }
+  report({
+    mount,
+    report: {
+      written: overlay.written,
+      skipped: overlay.skipped,
+      unchanged: overlay.unchanged,
+      patched: overlay.patched,
+      conflicts: overlay.conflicts.map((c) => c.file),
+      generated: overlay.generated.map((f) => manifestKey(targetDir, f.path)),
+    },
+    addedDeps: added,
+  });
 
   if (!flags["no-link"]) {
     await runLink(targetDir, flags);
   }
 
-  const skipInstall = Boolean(flags["skip-install"]);
+  const install = addCommands(pm, targetDir, deps);
+  if (dryRun) {
+    if (!skipInstall) {
+      for (const cmd of install) {
+        log.info(`Would run ${describeInstall(cmd, targetDir)}`);
+      }
+    }
+    printPlan(targetDir);
+    outro("Dry run - nothing written.");
+    return;
+  }
+
   if (!skipInstall) {
-    log.step(`Installing dependencies (${pm})`);
-    await run(pm, installArgs(pm), targetDir);
+    log.step(`Installing ${deps.map((d) => d.name).join(", ")} (${pm})`);
+    for (const cmd of install) await run(cmd.pm, cmd.args, cmd.cwd);
+    if (added.length) log.success(`Added deps: ${added.join(", ")}`);
   }
 
   const steps = [
@@ -76,10 +359,10 @@ export async function initCommand(args: ParsedArgs): Promise<void> {
     `${pm === "npm" ? "npm run" : pm} dev`,
     "Open the site in the cmssy editor to edit visually.",
   ];
-  if (report.skipped.includes("next.config.mjs")) {
+  if (overlay.skipped.some((f) => f.startsWith("next.config."))) {
     steps.push(
       pc.yellow(
-        "Add images.remotePatterns for assets.cmssy.io to your next.config so cmssy media renders.",
+        `Add images.remotePatterns for ${CMSSY_IMAGE_HOST} to your next.config so cmssy media renders.`,
       ),
     );
   }
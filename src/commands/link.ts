@@ -1,16 +1,24 @@
 import { join } from "node:path";
-import { cancel, isCancel, log, password, spinner, text } from "@clack/prompts";
-import type { ParsedArgs } from "../utils/args.js";
+import {
+  cancel,
+  intro,
+  isCancel,
+  log,
+  outro,
+  password,
+  report,
+  spinner,
+  text,
+} from "../utils/output.js";
+import { flagString, type ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig } from "../utils/cli-config.js";
 import { resolveWorkspace } from "../utils/delivery.js";
 import { setEnvVars } from "../utils/env.js";
-import { pathExists } from "../utils/files.js";
+import { printPlan } from "../utils/diff.js";
+import { isDryRun, pathExists, startDryRun } from "../utils/files.js";
 import { HEADLESS_SETTINGS_HINT } from "../utils/constants.js";
 import { pc } from "../utils/ui.js";
 
-function flagString(value: string | boolean | undefined): string | undefined {
-  return typeof value === "string" ? value : undefined;
-}
-
 function bail(): never {
   cancel("Cancelled.");
   process.exit(0);
@@ -21,6 +29,7 @@ export async function runLink(
   cwd: string,
   flags: ParsedArgs["flags"],
 ): Promise<void> {
+  const { apiUrl } = loadProjectConfig(cwd, flags);
   let slug = flagString(flags.slug);
   if (!slug) {
     const answer = await text({
@@ -42,7 +51,6 @@ export async function runLink(
     secret = answer.trim();
   }
 
-  const apiUrl = flagString(flags["api-url"]);
   const s = spinner();
   s.start("Checking workspace");
   const lookup = await resolveWorkspace(slug, apiUrl);
@@ -53,6 +61,7 @@ export async function runLink(
   } else {
     s.stop(pc.yellow(`Could not verify workspace (${lookup.message})`));
   }
+  report({ workspace: slug, lookup });
 
   await setEnvVars(
     join(cwd, ".env"),
@@ -65,7 +74,7 @@ export async function runLink(
     { overwrite: false },
   );
 
-  log.success("Wrote .env");
+  log.success(isDryRun() ? "Planned .env changes" : "Wrote .env");
 }
 
 export async function linkCommand(args: ParsedArgs): Promise<void> {
@@ -76,8 +85,14 @@ export async function linkCommand(args: ParsedArgs): Promise<void> {
   if (!hasConfig) {
     log.warn("No cmssy.config.ts here - run `cmssy init` first.");
   }
-  const { intro, outro } = await import("@clack/prompts");
+  const dryRun = Boolean(args.flags["dry-run"]);
+  if (dryRun) startDryRun();
   intro(pc.bold("cmssy link"));
   await runLink(cwd, args.flags);
+  if (dryRun) {
+    printPlan(cwd);
+    outro("Dry run - nothing written.");
+    return;
+  }
   outro("Linked.");
 }
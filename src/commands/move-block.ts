@@ -0,0 +1,54 @@
+import { existsSync } from "node:fs";
+import { intro, log, outro, report } from "../utils/output.js";
+import { flagString, type ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig, projectPath } from "../utils/cli-config.js";
+import { editGenerated } from "../utils/manifest.js";
+import { blockNames } from "../utils/names.js";
+import { moveBlock } from "../utils/registry.js";
+import { pc } from "../utils/ui.js";
+
+export async function moveBlockCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const config = loadProjectConfig(cwd, args.flags);
+  const blocksFile = config.registryFile;
+  const registryName = projectPath(config, blocksFile);
+  const { flags } = args;
+
+  intro(pc.bold("cmssy move block"));
+
+  const input = args.positionals[0];
+  const before = flagString(flags.before);
+  const after = flagString(flags.after);
+  const position = flags.first
+    ? "first"
+    : flags.last
+      ? "last"
+      : before
+        ? { before: blockNames(before).camel }
+        : after
+          ? { after: blockNames(after).camel }
+          : null;
+  if (!input || !position) {
+    log.error(
+      "Usage: cmssy move block <name> (--before <other> | --after <other> | --first | --last)",
+    );
+    process.exitCode = 1;
+    return;
+  }
+  if (!existsSync(blocksFile)) {
+    log.error(`No ${registryName} found - run \`cmssy init\` first.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const names = blockNames(input);
+  const moved = await editGenerated(cwd, [blocksFile], () =>
+    moveBlock(blocksFile, names.camel, position),
+  );
+  report({ block: `${names.camel}Block`, moved });
+  outro(
+    moved
+      ? `Moved ${names.camel}Block in ${registryName}.`
+      : `${names.camel}Block is already there.`,
+  );
+}
@@ -0,0 +1,134 @@
+import { existsSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  cancel,
+  confirm,
+  interactive,
+  intro,
+  isCancel,
+  log,
+  outro,
+  report,
+  text,
+} from "../utils/output.js";
+import type { ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig, projectPath } from "../utils/cli-config.js";
+import { findBlockImporters } from "../utils/imports.js";
+import { editGenerated, forgetGenerated } from "../utils/manifest.js";
+import { blockNames } from "../utils/names.js";
+import { readRegistry, unregisterBlock } from "../utils/registry.js";
+import { pc } from "../utils/ui.js";
+
+function bail(): never {
+  cancel("Cancelled.");
+  process.exit(0);
+}
+
+export async function removeBlockCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const config = loadProjectConfig(cwd, args.flags);
+  const blocksFile = config.registryFile;
+  const registryName = projectPath(config, blocksFile);
+  const blocksName = projectPath(config, config.blocksDir);
+  const dryRun = Boolean(args.flags["dry-run"]);
+  const keepFiles = Boolean(args.flags["keep-files"]);
+  const yes = Boolean(args.flags.yes || args.flags.y);
+
+  intro(pc.bold("cmssy remove block"));
+
+  if (!existsSync(blocksFile)) {
+    log.error(`No ${registryName} found - run \`cmssy init\` first.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let input = args.positionals[0];
+  if (!input) {
+    const answer = await text({
+      message: "Block to remove",
+      placeholder: "feature-grid",
+      validate: (v) => (v?.trim() ? undefined : "Required"),
+    });
+    if (isCancel(answer)) bail();
+    input = answer.trim();
+  }
+
+  const names = blockNames(input);
+  const token = `${names.camel}Block`;
+  const dir = join(config.blocksDir, names.type);
+  const hasDir = existsSync(dir);
+  const registry = readRegistry(blocksFile);
+  const registered =
+    registry.entries.some((e) => e.name === token) ||
+    registry.imports.some((i) => i.local === token || i.imported === token);
+
+  if (!hasDir && !registered) {
+    log.warn(`No block "${names.type}" found - nothing to remove.`);
+    outro("Nothing changed.");
+    return;
+  }
+
+  const importers = findBlockImporters(cwd, dir, names.type, [blocksFile]);
+  if (importers.length) {
+    log.error(
+      `${blocksName}/${names.type} is still imported by:\n${importers
+        .map((i) => `  ${i.file} (${i.specifier})`)
+        .join("\n")}`,
+    );
+    log.info("Remove those imports first, then run this again.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const deleteDir = hasDir && !keepFiles;
+  if (deleteDir && !yes && !dryRun && !interactive()) {
+    log.error(
+      `Deleting ${blocksName}/${names.type}/ needs --yes (or --keep-files) outside an interactive terminal.`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+  report({
+    block: { type: names.type, export: token },
+    unregistered: registered,
+    deleted: false,
+    ...(dryRun ? { wouldDelete: deleteDir } : {}),
+  });
+  if (dryRun) {
+    if (registered) log.info(`Would unregister ${token} from ${registryName}`);
+    if (deleteDir) log.info(`Would delete ${blocksName}/${names.type}/`);
+    outro("Dry run - nothing changed.");
+    return;
+  }
+
+  // Ask before touching anything, so declining leaves the block whole.
+  if (deleteDir && !yes) {
+    const ok = await confirm({
+      message: `Delete ${blocksName}/${names.type}/ and everything in it?`,
+      initialValue: false,
+    });
+    if (isCancel(ok)) bail();
+    if (!ok) {
+      report({ unregistered: false });
+      outro("Nothing changed.");
+      return;
+    }
+  }
+
+  if (registered) {
+    await editGenerated(cwd, [blocksFile], () =>
+      unregisterBlock(blocksFile, names.camel),
+    );
+    log.success(`Unregistered ${token} from ${registryName}`);
+  }
+
+  if (deleteDir) {
+    await forgetGenerated(cwd, [dir]);
+    await rm(dir, { recursive: true, force: true });
+    report({ deleted: true });
+    log.success(`Deleted ${blocksName}/${names.type}/`);
+  }
+
+  outro(`Removed "${names.type}".`);
+}
@@ -0,0 +1,183 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { basename, dirname, join, relative, sep } from "node:path";
+import { intro, log, outro, report } from "../utils/output.js";
+import type { ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig, projectPath } from "../utils/cli-config.js";
+import { printPlan } from "../utils/diff.js";
+import {
+  movePath,
+  pathExists,
+  readText,
+  removeFile,
+  startDryRun,
+  writeText,
+} from "../utils/files.js";
+import { findBlockImporters } from "../utils/imports.js";
+import {
+  editGenerated,
+  MANIFEST_FILE,
+  moveGenerated,
+} from "../utils/manifest.js";
+import { blockNames } from "../utils/names.js";
+import { renameRegisteredBlock } from "../utils/registry.js";
+import { renameBlockSource, renamedFileName } from "../utils/rename.js";
+import { pc } from "../utils/ui.js";
+
+const SOURCE_EXT = /\.[cm]?[jt]sx?$/;
+
+interface PlannedFile {
+  from: string;
+  to: string;
+  content: Buffer | string;
+}
+
+function walk(dir: string): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    const abs = join(dir, entry);
+    return statSync(abs).isDirectory() ? walk(abs) : [abs];
+  });
+}
+
+function posix(p: string): string {
+  return p.split(sep).join("/");
+}
+
+export async function renameBlockCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const config = loadProjectConfig(cwd, args.flags);
+  const blocksFile = config.registryFile;
+  const registryName = projectPath(config, blocksFile);
+  const blocksName = projectPath(config, config.blocksDir);
+  const keepType = Boolean(args.flags["keep-type"]);
+  const dryRun = Boolean(args.flags["dry-run"]);
+  if (dryRun) startDryRun();
+
+  intro(pc.bold("cmssy rename block"));
+
+  const [oldInput, newInput] = args.positionals;
+  if (!oldInput || !newInput) {
+    log.error("Usage: cmssy rename block <old> <new> [--keep-type]");
+    process.exitCode = 1;
+    return;
+  }
+  if (!existsSync(blocksFile)) {
+    log.error(`No ${registryName} found - run \`cmssy init\` first.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const from = blockNames(oldInput);
+  const to = blockNames(newInput);
+  const oldDir = join(config.blocksDir, from.type);
+  const newDir = join(config.blocksDir, to.type);
+
+  if (from.type === to.type) {
+    log.warn(`"${from.type}" and "${newInput}" normalize to the same name.`);
+    outro("Nothing changed.");
+    return;
+  }
+  if (!existsSync(oldDir)) {
+    log.error(`No ${blocksName}/${from.type}/ folder found.`);
+    process.exitCode = 1;
+    return;
+  }
+  if (existsSync(newDir)) {
+    log.error(`${blocksName}/${to.type}/ already exists.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const importers = findBlockImporters(cwd, oldDir, from.type, [blocksFile]);
+  if (importers.length) {
+    log.error(
+      `${blocksName}/${from.type} is imported outside the registry by:\n${importers
+        .map((i) => `  ${i.file} (${i.specifier})`)
+        .join("\n")}`,
+    );
+    log.info("Update or remove those imports first, then run this again.");
+    process.exitCode = 1;
+    return;
+  }
+
+  // Render everything in memory first so a bad file can't leave a half-renamed block.
+  const plan: PlannedFile[] = walk(oldDir).map((abs) => {
+    const rel = relative(oldDir, abs);
+    const target = join(
+      newDir,
+      dirname(rel),
+      renamedFileName(basename(rel), from, to),
+    );
+    return {
+      from: abs,
+      to: target,
+      content: SOURCE_EXT.test(abs)
+        ? renameBlockSource(readFileSync(abs, "utf8"), from, to, { keepType })
+        : readFileSync(abs),
+    };
+  });
+
+  report({
+    from: { type: from.type, export: `${from.camel}Block` },
+    to: { type: to.type, export: `${to.camel}Block` },
+    keepType,
+    files: plan.map((f) => ({
+      from: posix(relative(cwd, f.from)),
+      to: posix(relative(cwd, f.to)),
+    })),
+  });
+
+  // Write the renamed sources, registry and manifest first, keeping the old
+  // folder until they all succeeded; anything written is undone on failure.
+  const manifestFile = join(cwd, MANIFEST_FILE);
+  const registryBefore = await readText(blocksFile);
+  const manifestBefore = pathExists(manifestFile)
+    ? await readText(manifestFile)
+    : null;
+  const written: string[] = [];
+  const moved: PlannedFile[] = [];
+  try {
+    for (const f of plan) {
+      if (typeof f.content !== "string") continue;
+      await writeText(f.to, f.content);
+      written.push(f.to);
+    }
+    await editGenerated(cwd, [blocksFile], () =>
+      renameRegisteredBlock(blocksFile, from, to),
+    );
+    await moveGenerated(cwd, plan);
+    // other files (images, say) move as they are
+    for (const f of plan) {
+      if (typeof f.content === "string") continue;
+      await movePath(f.from, f.to);
+      moved.push(f);
+    }
+  } catch (err) {
+    for (const f of moved) {
+      await movePath(f.to, f.from);
+      await removeFile(f.to, config.blocksDir);
+    }
+    for (const file of written) await removeFile(file, config.blocksDir);
+    await writeText(blocksFile, registryBefore);
+    if (manifestBefore === null) await removeFile(manifestFile);
+    else await writeText(manifestFile, manifestBefore);
+    throw err;
+  }
+  for (const f of plan) await removeFile(f.from, config.blocksDir);
+
+  if (dryRun) {
+    printPlan(cwd);
+    outro("Dry run - nothing written.");
+    return;
+  }
+  log.success(
+    `Renamed ${blocksName}/${from.type}/ -> ${blocksName}/${to.type}/ (${from.camel}Block -> ${to.camel}Block)`,
+  );
+  if (keepType) {
+    log.info(`Kept type "${from.type}" so existing content still renders.`);
+  } else {
+    log.warn(
+      `Type changed "${from.type}" -> "${to.type}". Content saved under the old type won't render; use --keep-type to avoid this.`,
+    );
+  }
+  outro(`Renamed "${from.type}" to "${to.type}".`);
+}
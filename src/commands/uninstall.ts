@@ -0,0 +1,229 @@
+import { join, relative, sep } from "node:path";
+import {
+  cancel,
+  confirm,
+  interactive,
+  intro,
+  isCancel,
+  log,
+  outro,
+  report,
+} from "../utils/output.js";
+import type { ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig, projectPath } from "../utils/cli-config.js";
+import { CMSSY_DEPS, CMSSY_ENV_KEYS } from "../utils/constants.js";
+import { printPlan } from "../utils/diff.js";
+import { removeEnvVars } from "../utils/env.js";
+import {
+  pathExists,
+  readTextSync,
+  removeFile,
+  startDryRun,
+} from "../utils/files.js";
+import {
+  forgetGenerated,
+  MANIFEST_FILE,
+  readManifest,
+} from "../utils/manifest.js";
+import {
+  findMiddlewareFiles,
+  loadedMiddleware,
+  missingEditLogic,
+} from "../utils/middleware.js";
+import {
+  declaredDependencies,
+  describeInstall,
+  removeCommand,
+  removeDependencies,
+  run,
+} from "../utils/pkg.js";
+import {
+  detectProject,
+  nextMajorVersion,
+  readPackageJson,
+} from "../utils/project.js";
+import { unregisterBlock } from "../utils/registry.js";
+import { findCmssyMount } from "../utils/routes.js";
+import { readTemplate } from "../utils/templates.js";
+import { loadImportConfig } from "../utils/tsconfig.js";
+import { pc, ui } from "../utils/ui.js";
+import {
+  orphanedBlocks,
+  planUninstall,
+  type OrphanedBlock,
+} from "../utils/uninstall.js";
+
+function bail(): never {
+  cancel("Cancelled.");
+  process.exit(0);
+}
+
+export async function uninstallCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const { flags } = args;
+  const dryRun = Boolean(flags["dry-run"]);
+  const force = Boolean(flags.force);
+  const yes = Boolean(flags.yes || flags.y);
+  if (dryRun) startDryRun();
+
+  intro(pc.bold("cmssy uninstall"));
+
+  const config = loadProjectConfig(cwd, flags);
+  const info = detectProject(cwd);
+  const srcDir = info.appDir === join(cwd, "src", "app");
+  const found = info.appDir ? findCmssyMount(info.appDir) : null;
+  const plan = planUninstall(cwd, {
+    srcDir,
+    mount: found?.mount ?? config.mount ?? "",
+    blocksDir: config.blocksDir,
+    registryFile: config.registryFile,
+    keepBlocks: Boolean(flags["keep-blocks"]),
+  });
+  let remove = plan.files.filter((f) => force || f.state === "pristine");
+  const kept = plan.files.filter((f) => !remove.includes(f));
+
+  // A registry that stays mustn't import block files that go: unregister
+  // those blocks from it, or keep the files when that isn't possible.
+  const registry = config.registryFile;
+  const unregister: OrphanedBlock[] = [];
+  const referenced: string[] = [];
+  if (pathExists(registry) && !remove.some((f) => f.abs === registry)) {
+    const orphans = orphanedBlocks(
+      registry,
+      config.blocksDir,
+      loadImportConfig(cwd),
+      new Set(remove.map((f) => f.abs)),
+    );
+    const keepDirs = orphans
+      ? orphans.filter((o) => !o.camel).map((o) => o.dir)
+      : [config.blocksDir];
+    unregister.push(...(orphans ?? []).filter((o) => o.camel));
+    remove = remove.filter((f) => {
+      const keep = keepDirs.some((d) => f.abs.startsWith(d + sep));
+      if (keep) referenced.push(f.path);
+      return !keep;
+    });
+  }
+
+  if (remove.length && !yes && !dryRun) {
+    if (!interactive()) {
+      log.error(
+        "Deleting the generated files needs --yes (or --dry-run to preview) outside an interactive terminal.",
+      );
+      process.exitCode = 1;
+      return;
+    }
+    for (const f of remove) ui.dim(`  ${f.path}`);
+    const ok = await confirm({
+      message: `Delete these ${remove.length} file(s)?`,
+      initialValue: false,
+    });
+    if (isCancel(ok) || !ok) bail();
+  }
+
+  for (const o of unregister) {
+    await unregisterBlock(registry, o.camel!);
+    log.success(
+      `${dryRun ? "Would unregister" : "Unregistered"} ${o.local} from ${projectPath(config, registry)}`,
+    );
+  }
+  for (const f of remove) await removeFile(f.abs, cwd);
+  if (remove.length)
+    log.success(
+      `${dryRun ? "Would delete" : "Deleted"} ${remove.length} generated file(s)`,
+    );
+  await forgetGenerated(cwd, [
+    ...remove.map((f) => f.abs),
+    ...plan.gone.map((p) => join(cwd, p)),
+  ]);
+  const manifest = readManifest(cwd);
+  if (manifest && !Object.keys(manifest.files).length) {
+    await removeFile(join(cwd, MANIFEST_FILE), cwd);
+  }
+  if (kept.length) {
+    log.warn("Kept files you edited (--force deletes them too):");
+    for (const f of kept) ui.dim(`  ${f.path}`);
+  }
+  if (referenced.length) {
+    log.warn(
+      `Kept block files ${projectPath(config, registry)} still imports: ${referenced.join(", ")}`,
+    );
+  }
+
+  const comments = readTemplate("init", "env.example")
+    .split("\n")
+    .filter((l) => l.startsWith("#"));
+  const envRemoved: Record<string, string[]> = {};
+  for (const file of [".env", ".env.example"]) {
+    const removed = await removeEnvVars(join(cwd, file), CMSSY_ENV_KEYS, {
+      comments,
+    });
+    if (removed.length) {
+      envRemoved[file] = removed;
+      log.success(`Removed ${removed.join(", ")} from ${file}`);
+    }
+  }
+
+  // With an install to run, `pm remove` drops the deps; otherwise they're
+  // cut from package.json directly.
+  const install = !flags["skip-install"];
+  const deps = !pathExists(join(cwd, "package.json"))
+    ? []
+    : install && !dryRun
+      ? declaredDependencies(readPackageJson(cwd), Object.keys(CMSSY_DEPS)).map(
+          (d) => d.name,
+        )
+      : await removeDependencies(cwd, Object.keys(CMSSY_DEPS));
+  if (deps.length && (!install || dryRun)) {
+    log.success(`Removed deps: ${deps.join(", ")}`);
+  }
+
+  // A proxy init wrapped (rather than wrote) still calls into @cmssy/next.
+  const sourceRoot = srcDir ? join(cwd, "src") : cwd;
+  const middleware = loadedMiddleware(
+    findMiddlewareFiles(sourceRoot),
+    nextMajorVersion(cwd),
+  ).file;
+  if (
+    middleware &&
+    !kept.some((f) => f.abs === middleware) &&
+    missingEditLogic(readTextSync(middleware), middleware).length === 0
+  ) {
+    log.warn(
+      `${relative(cwd, middleware)} still wraps cmssy edit mode - unwrap it by hand.`,
+    );
+  }
+
+  report({
+    deleted: remove.map((f) => f.path),
+    kept: [...kept.map((f) => f.path), ...referenced],
+    unregistered: unregister.map((o) => o.local),
+    env: envRemoved,
+    dependencies: deps,
+  });
+
+  if (!remove.length && !deps.length && !kept.length) {
+    log.info("No cmssy wiring found here.");
+  }
+
+  const { pm } = config;
+  const command = removeCommand(pm, cwd, deps);
+  if (dryRun) {
+    if (install && deps.length) {
+      log.info(`Would run ${describeInstall(command, cwd)}`);
+    }
+    printPlan(cwd);
+    outro("Dry run - nothing written.");
+    return;
+  }
+  if (install && deps.length) {
+    log.step(`Removing ${deps.join(", ")} (${pm})`);
+    await run(command.pm, command.args, command.cwd);
+    log.success(`Removed deps: ${deps.join(", ")}`);
+  }
+  outro(
+    kept.length || referenced.length
+      ? "cmssy removed, except the files it kept."
+      : "cmssy removed.",
+  );
+}
@@ -0,0 +1,151 @@
+import { join } from "node:path";
+import { intro, log, outro, report } from "../utils/output.js";
+import type { ParsedArgs } from "../utils/args.js";
+import { loadProjectConfig } from "../utils/cli-config.js";
+import {
+  codemodsBetween,
+  compareVersions,
+  rangeFloor,
+} from "../utils/codemods.js";
+import { CMSSY_DEPS } from "../utils/constants.js";
+import { printPlan } from "../utils/diff.js";
+import { startDryRun } from "../utils/files.js";
+import { MANIFEST_FILE, readManifest } from "../utils/manifest.js";
+import {
+  addCommands,
+  dependencyChanges,
+  describeInstall,
+  run,
+  setDependencyVersions,
+} from "../utils/pkg.js";
+import { detectProject, readPackageJson } from "../utils/project.js";
+import { findCmssyMount } from "../utils/routes.js";
+import { pc, ui } from "../utils/ui.js";
+import { upgradeWiring } from "../utils/upgrade.js";
+
+const SDK_PACKAGES = Object.keys(CMSSY_DEPS);
+
+export async function upgradeCommand(args: ParsedArgs): Promise<void> {
+  const cwd = process.cwd();
+  const { flags } = args;
+  const dryRun = Boolean(flags["dry-run"]);
+  if (dryRun) startDryRun();
+
+  intro(pc.bold("cmssy upgrade"));
+
+  const config = loadProjectConfig(cwd, flags);
+  const info = detectProject(cwd);
+  const declared = SDK_PACKAGES.map(
+    (name) =>
+      info.pkg?.dependencies?.[name] ?? info.pkg?.devDependencies?.[name],
+  );
+  if (!info.isNextAppRouter || declared.every((v) => !v)) {
+    log.error("No cmssy project found here - run `cmssy init` first.");
+    process.exitCode = 1;
+    return;
+  }
+
+  // Codemods run from the older of the two, so a misaligned pair catches up.
+  const target = CMSSY_DEPS["@cmssy/next"]!;
+  const floors = declared.map((v) => (v ? rangeFloor(v) : null));
+  const newest = floors.find(
+    (f) => f && compareVersions(f, rangeFloor(target)!) > 0,
+  );
+  if (newest) {
+    log.error(
+      `@cmssy/* is already newer than this CLI supports (${target}). Update the CLI first: npx @cmssy/cli@latest upgrade`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const oldest = declared
+    .filter((v, i): v is string => Boolean(v && floors[i]))
+    .sort((a, b) => compareVersions(rangeFloor(a)!, rangeFloor(b)!))[0];
+
+  // An install adds the new versions with `pm add`; otherwise package.json
+  // is edited directly.
+  const install = !flags["skip-install"];
+  const changes =
+    install && !dryRun
+      ? dependencyChanges(readPackageJson(cwd) ?? {}, CMSSY_DEPS)
+      : await setDependencyVersions(cwd, CMSSY_DEPS);
+  for (const c of changes) {
+    log.success(`${c.name} ${c.from ?? "(not declared)"} -> ${c.to}`);
+  }
+  if (!changes.length) log.info(`@cmssy/* already at ${target}`);
+  report({ target, dependencies: changes });
+
+  if (!readManifest(cwd)) {
+    log.warn(
+      `No ${MANIFEST_FILE}, so upgrade can't tell which files are still as generated. Run \`cmssy init\` to record them, then upgrade again.`,
+    );
+  } else {
+    const wiring = await upgradeWiring(cwd, {
+      srcDir: info.appDir === join(cwd, "src", "app"),
+      mount: findCmssyMount(info.appDir!)?.mount ?? config.mount ?? "",
+      blocksDir: config.blocksDir,
+      registryFile: config.registryFile,
+      codemods: codemodsBetween(oldest, target),
+    });
+    report({
+      wiring: {
+        ...wiring,
+        unmigrated: wiring.unmigrated.map((u) => ({
+          path: u.path,
+          codemod: u.codemod.id,
+        })),
+      },
+    });
+    if (wiring.rendered.length) {
+      log.success(
+        `Re-rendered from the new templates: ${wiring.rendered.join(", ")}`,
+      );
+    }
+    for (const m of wiring.migrated) {
+      log.success(`Migrated ${m.path} (${m.applied.join(", ")})`);
+    }
+    if (wiring.unmigrated.length) {
+      log.warn("Couldn't migrate these edited files - update them by hand:");
+      for (const u of wiring.unmigrated) {
+        ui.dim(`  ${u.path} - ${u.codemod.description}`);
+      }
+    }
+    if (wiring.stale.length) {
+      log.info(`Kept your edits to: ${wiring.stale.join(", ")}`);
+      ui.dim(
+        "  Their templates changed; `cmssy init --on-conflict sidecar` writes each new template next to yours.",
+      );
+    }
+    if (wiring.deleted.length) {
+      ui.dim(
+        `  Deleted since generated, left out: ${wiring.deleted.join(", ")}`,
+      );
+    }
+  }
+
+  const { pm } = config;
+  const commands = install
+    ? addCommands(
+        pm,
+        cwd,
+        changes.map((c) => ({ name: c.name, range: c.to, dev: c.dev })),
+      )
+    : [];
+  if (dryRun) {
+    for (const cmd of commands) {
+      log.info(`Would run ${describeInstall(cmd, cwd)}`);
+    }
+    printPlan(cwd);
+    outro("Dry run - nothing written.");
+    return;
+  }
+  if (commands.length) {
+    log.step(`Installing ${changes.map((c) => c.name).join(", ")} (${pm})`);
+    for (const cmd of commands) await run(cmd.pm, cmd.args, cmd.cwd);
+  }
+  outro(
+    changes.length
+      ? `Upgraded to @cmssy/* ${target}.`
+      : `Up to date with @cmssy/* ${target}.`,
+  );
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { parseArgs } from "./args.js";
+import { flagList, parseArgs } from "./args.js";
 
 describe("parseArgs", () => {
   it("splits positionals and flags", () => {
@@ -17,3 +17,17 @@ describe("parseArgs", () => {
     expect(parseArgs(["link", "--no-link"]).flags).toEqual({ "no-link": true });
   });
 });
+
+describe("flagList", () => {
+  it("collects a repeated flag into a list", () => {
+    const r = parseArgs(["--field", "title:singleLine!", "--field=cta:link"]);
+    expect(r.flags.field).toEqual(["title:singleLine!", "cta:link"]);
+    expect(flagList(r.flags.field)).toEqual(["title:singleLine!", "cta:link"]);
+  });
+
+  it("wraps a single value and ignores booleans", () => {
+    expect(flagList("a")).toEqual(["a"]);
+    expect(flagList(true)).toEqual([]);
+    expect(flagList(undefined)).toEqual([]);
+  });
+});
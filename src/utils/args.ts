@@ -1,11 +1,28 @@
+export type FlagValue = string | boolean | string[];
+
 export interface ParsedArgs {
   positionals: string[];
-  flags: Record<string, string | boolean>;
+  flags: Record<string, FlagValue>;
+}
+
+/** A string flag given more than once (`--field a --field b`) collects into an array. */
+function setFlag(
+  flags: Record<string, FlagValue>,
+  key: string,
+  value: string | boolean,
+): void {
+  const prev = flags[key];
+  if (typeof value === "string" && prev !== undefined && prev !== true) {
+    flags[key] =
+      typeof prev === "string" ? [prev, value] : [...(prev as string[]), value];
+  } else {
+    flags[key] = value;
+  }
 }
 
 export function parseArgs(argv: string[]): ParsedArgs {
   const positionals: string[] = [];
-  const flags: Record<string, string | boolean> = {};
+  const flags: Record<string, FlagValue> = {};
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i]!;
@@ -13,14 +30,14 @@ export function parseArgs(argv: string[]): ParsedArgs {
       const key = arg.slice(2);
       const eq = key.indexOf("=");
       if (eq !== -1) {
-        flags[key.slice(0, eq)] = key.slice(eq + 1);
+        setFlag(flags, key.slice(0, eq), key.slice(eq + 1));
       } else {
         const next = argv[i + 1];
         if (next !== undefined && !next.startsWith("-")) {
-          flags[key] = next;
+          setFlag(flags, key, next);
           i++;
         } else {
-          flags[key] = true;
+          setFlag(flags, key, true);
         }
       }
     } else if (arg.startsWith("-") && arg.length > 1) {
@@ -32,3 +49,13 @@ export function parseArgs(argv: string[]): ParsedArgs {
 
   return { positionals, flags };
 }
+
+export function flagString(value: FlagValue | undefined): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/** All string values of a (possibly repeated) flag. */
+export function flagList(value: FlagValue | undefined): string[] {
+  if (typeof value === "string") return [value];
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,83 @@
+import ts from "typescript";
+
+/** Parse a TS/TSX/JS source without type-checking; syntax errors are tolerated. */
+export function parseSource(fileName: string, text: string): ts.SourceFile {
+  const kind = /\.[jt]sx$/.test(fileName)
+    ? ts.ScriptKind.TSX
+    : /\.[cm]?js$/.test(fileName)
+      ? ts.ScriptKind.JS
+      : ts.ScriptKind.TS;
+  return ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    kind,
+  );
+}
+
+/** 1-based line of a node's first token. */
+export function lineOf(sf: ts.SourceFile, node: ts.Node): number {
+  return sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+}
+
+/** Strip `as const`, `satisfies X`, `<T>x`, `x!` and parentheses. */
+export function unwrapExpression(node: ts.Expression): ts.Expression {
+  let cur = node;
+  for (;;) {
+    if (
+      ts.isAsExpression(cur) ||
+      ts.isSatisfiesExpression(cur) ||
+      ts.isTypeAssertionExpression(cur) ||
+      ts.isNonNullExpression(cur) ||
+      ts.isParenthesizedExpression(cur)
+    ) {
+      cur = cur.expression;
+    } else {
+      return cur;
+    }
+  }
+}
+
+export function stringValue(node: ts.Node | undefined): string | null {
+  if (!node) return null;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  return null;
+}
+
+export function propertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) return name.text;
+  if (ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return null;
+}
+
+/** Look up a named property of an object literal (`{ key: value }` or `{ key }`). */
+export function getProperty(
+  obj: ts.ObjectLiteralExpression,
+  key: string,
+): ts.ObjectLiteralElementLike | undefined {
+  return obj.properties.find(
+    (p) => p.name !== undefined && propertyName(p.name) === key,
+  );
+}
+
+export function propertyValue(
+  obj: ts.ObjectLiteralExpression,
+  key: string,
+): ts.Expression | undefined {
+  const prop = getProperty(obj, key);
+  if (!prop) return undefined;
+  if (ts.isPropertyAssignment(prop)) return unwrapExpression(prop.initializer);
+  if (ts.isShorthandPropertyAssignment(prop)) return prop.name;
+  return undefined;
+}
+
+/** The rightmost name of a callee: `defineBlock` for `defineBlock(...)` and `x.defineBlock(...)`. */
+export function calleeName(call: ts.CallExpression): string | null {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return null;
+}
@@ -0,0 +1,129 @@
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { lintBlocks } from "./block-lint.js";
+import { inventoryBlocks } from "./inventory.js";
+
+const NO_ALIASES = { configFile: null, aliases: [], baseUrl: null };
+
+function block(type: string, component = "Hero", props = ""): string {
+  return `import { defineBlock, fields } from "@cmssy/react";
+import ${component} from "./${component}";
+
+export const ${type.replace(/-./g, (m) => m[1]!.toUpperCase())}Block = defineBlock({
+  type: "${type}",
+  label: "X",
+  component: ${component},
+  props: {${props}},
+});
+`;
+}
+
+async function project(
+  files: Record<string, string>,
+  /** `export:folder` pairs */
+  registry: string[],
+): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "cmssy-lint-"));
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(join(dir, path, ".."), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+  await mkdir(join(dir, "cmssy"), { recursive: true });
+  await writeFile(
+    join(dir, "cmssy", "blocks.ts"),
+    registry
+      .map((entry) => {
+        const [name, folder] = entry.split(":");
+        return `import { ${name} } from "../blocks/${folder}/block";\n`;
+      })
+      .join("") +
+      `\nexport const blocks = [${registry.map((e) => e.split(":")[0]).join(", ")}];\n`,
+  );
+  return dir;
+}
+
+function lint(dir: string) {
+  const inv = inventoryBlocks(
+    join(dir, "blocks"),
+    join(dir, "cmssy", "blocks.ts"),
+    NO_ALIASES,
+  );
+  return lintBlocks(inv.blocks, NO_ALIASES, dir).map((p) => [
+    p.kind,
+    p.exportName,
+  ]);
+}
+
+describe("lintBlocks", () => {
+  it("passes a block as add block writes it", async () => {
+    const dir = await project(
+      {
+        "blocks/hero/block.ts": block("hero"),
+        "blocks/hero/Hero.tsx":
+          'import styles from "./Hero.module.css";\nexport default function Hero() { return null; }\n',
+        "blocks/hero/Hero.module.css": ".block {}\n",
+      },
+      ["heroBlock:hero"],
+    );
+    expect(lint(dir)).toEqual([]);
+  });
+
+  it("flags duplicate, empty and misplaced types", async () => {
+    const dir = await project(
+      {
+        "blocks/hero/block.ts": block("hero"),
+        "blocks/hero/Hero.tsx": "export default () => null;\n",
+        "blocks/banner/block.ts": block("hero").replace(
+          "heroBlock",
+          "bannerBlock",
+        ),
+        "blocks/banner/Hero.tsx": "export default () => null;\n",
+        "blocks/blank/block.ts": block("").replace("Block =", "blankBlock ="),
+        "blocks/blank/Hero.tsx": "export default () => null;\n",
+      },
+      ["heroBlock:hero", "bannerBlock:banner", "blankBlock:blank"],
+    );
+    expect(lint(dir)).toEqual([
+      ["folder-mismatch", "bannerBlock"],
+      ["empty-type", "blankBlock"],
+      ["duplicate-type", "bannerBlock"],
+    ]);
+  });
+
+  it("flags unresolved component and CSS module imports", async () => {
+    const dir = await project(
+      {
+        "blocks/hero/block.ts": block("hero", "Renamed"),
+        "blocks/faq/block.ts": block("faq", "Faq"),
+        "blocks/faq/Faq.tsx":
+          'import styles from "./Faq.module.css";\nimport "some-lib/dist/theme.css";\nexport default () => null;\n',
+      },
+      ["heroBlock:hero", "faqBlock:faq"],
+    );
+    expect(lint(dir)).toEqual([
+      ["unresolved-import", "heroBlock"],
+      ["unresolved-import", "faqBlock"],
+    ]);
+  });
+
+  it("flags repeated field keys and exports that aren't blocks", async () => {
+    const dir = await project(
+      {
+        "blocks/hero/block.ts": block(
+          "hero",
+          "Hero",
+          '\n    heading: fields.singleLine({ label: "A" }),\n    heading: fields.singleLine({ label: "B" }),\n  ',
+        ),
+        "blocks/hero/Hero.tsx": "export default () => null;\n",
+        "blocks/util/block.ts": "export const utilBlock = { type: 'util' };\n",
+      },
+      ["heroBlock:hero", "utilBlock:util"],
+    );
+    expect(lint(dir)).toEqual([
+      ["duplicate-field", "heroBlock"],
+      ["not-a-block", "utilBlock"],
+    ]);
+  });
+});
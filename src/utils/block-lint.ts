@@ -0,0 +1,166 @@
+import { readFileSync } from "node:fs";
+import { relative, sep } from "node:path";
+import ts from "typescript";
+import { parseSource } from "./ast.js";
+import { importSpecifiers } from "./imports.js";
+import type { BlockEntry } from "./inventory.js";
+import { matchAlias, resolveImport, type ImportConfig } from "./tsconfig.js";
+
+export type BlockProblemKind =
+  | "not-a-block"
+  | "empty-type"
+  | "duplicate-type"
+  | "folder-mismatch"
+  | "unresolved-import"
+  | "duplicate-field";
+
+export interface BlockProblem {
+  kind: BlockProblemKind;
+  /** the registry export the problem belongs to */
+  exportName: string;
+  /** absolute path of the file to look at */
+  file: string;
+  message: string;
+}
+
+const STYLE_IMPORT = /\.(?:css|scss|sass|less)$/;
+
+/** Relative and alias imports are ours to resolve; packages aren't. */
+function isLocal(specifier: string, imports: ImportConfig): boolean {
+  return specifier.startsWith(".") || matchAlias(specifier, imports) !== null;
+}
+
+/** Local name -> specifier for every import binding in a module. */
+function importBindings(sf: ts.SourceFile): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const stmt of sf.statements) {
+    if (
+      !ts.isImportDeclaration(stmt) ||
+      !ts.isStringLiteral(stmt.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const specifier = stmt.moduleSpecifier.text;
+    const clause = stmt.importClause;
+    if (clause?.name) out.set(clause.name.text, specifier);
+    const named = clause?.namedBindings;
+    if (named && ts.isNamespaceImport(named)) {
+      out.set(named.name.text, specifier);
+    } else if (named) {
+      for (const el of named.elements) out.set(el.name.text, specifier);
+    }
+  }
+  return out;
+}
+
+/**
+ * Statically check the registered blocks' `defineBlock` calls: every export
+ * is one, types are set, unique and match their folder, the component and
+ * its stylesheets resolve, and no field key is repeated. Entries whose
+ * module is missing are left to the caller.
+ */
+export function lintBlocks(
+  blocks: BlockEntry[],
+  imports: ImportConfig,
+  projectDir: string,
+): BlockProblem[] {
+  const problems: BlockProblem[] = [];
+  const show = (file: string) =>
+    relative(projectDir, file).split(sep).join("/");
+  const byType = new Map<string, BlockEntry[]>();
+
+  for (const block of blocks) {
+    const { exportName, file, definition: def } = block;
+    if (!file || exportName.startsWith("...")) continue;
+    if (!def) {
+      problems.push({
+        kind: "not-a-block",
+        exportName,
+        file,
+        message: `${exportName} in ${show(file)} is not a defineBlock(...) result`,
+      });
+      continue;
+    }
+
+    if (!def.type) {
+      problems.push({
+        kind: "empty-type",
+        exportName,
+        file,
+        message: `${exportName} has no type (it must be a non-empty string literal)`,
+      });
+    } else {
+      byType.set(def.type, [...(byType.get(def.type) ?? []), block]);
+      if (block.folder && block.folder !== def.type) {
+        problems.push({
+          kind: "folder-mismatch",
+          exportName,
+          file,
+          message: `${exportName} has type "${def.type}" but lives in blocks/${block.folder}`,
+        });
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const field of def.fields) {
+      if (seen.has(field.name)) {
+        problems.push({
+          kind: "duplicate-field",
+          exportName,
+          file,
+          message: `${exportName} defines field "${field.name}" more than once`,
+        });
+      }
+      seen.add(field.name);
+    }
+
+    const source = readFileSync(file, "utf8");
+    const bindings = importBindings(parseSource(file, source));
+    const styleSources = [{ file, source }];
+    const componentSpec = def.component && bindings.get(def.component);
+    if (componentSpec && isLocal(componentSpec, imports)) {
+      const component = resolveImport(componentSpec, file, imports);
+      if (!component) {
+        problems.push({
+          kind: "unresolved-import",
+          exportName,
+          file,
+          message: `${exportName}'s component import "${componentSpec}" doesn't resolve from ${show(file)}`,
+        });
+      } else if (component !== file) {
+        styleSources.push({
+          file: component,
+          source: readFileSync(component, "utf8"),
+        });
+      }
+    }
+    for (const s of styleSources) {
+      for (const spec of importSpecifiers(s.source)) {
+        if (
+          !STYLE_IMPORT.test(spec) ||
+          !isLocal(spec, imports) ||
+          resolveImport(spec, s.file, imports)
+        ) {
+          continue;
+        }
+        problems.push({
+          kind: "unresolved-import",
+          exportName,
+          file: s.file,
+          message: `${show(s.file)} imports "${spec}", which doesn't exist`,
+        });
+      }
+    }
+  }
+
+  for (const [type, owners] of byType) {
+    if (owners.length < 2) continue;
+    problems.push({
+      kind: "duplicate-type",
+      exportName: owners[1]!.exportName,
+      file: owners[1]!.file!,
+      message: `type "${type}" is used by ${owners.map((o) => o.exportName).join(" and ")}`,
+    });
+  }
+  return problems;
+}
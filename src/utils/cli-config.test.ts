@@ -0,0 +1,98 @@
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { project } from "../test/project.js";
+import { ConfigError, loadProjectConfig, projectPath } from "./cli-config.js";
+
+describe("loadProjectConfig", () => {
+  it("defaults to blocks/ and cmssy/blocks.ts under the source root", async () => {
+    const dir = await project({
+      "package.json": "{}",
+      "package-lock.json": "{}",
+      "src/app/page.tsx": "",
+    });
+    const config = loadProjectConfig(dir);
+    expect(config).toMatchObject({
+      source: null,
+      base: join(dir, "src"),
+      srcDir: true,
+      pm: "npm",
+      apiUrl: undefined,
+      blocksDir: join(dir, "src", "blocks"),
+      registryFile: join(dir, "src", "cmssy", "blocks.ts"),
+      templatesDir: null,
+      style: "css-modules",
+      mount: undefined,
+    });
+    expect(projectPath(config, join(dir, "src", "blocks", "hero"))).toBe(
+      "blocks/hero",
+    );
+  });
+
+  it("reads the cmssy section of package.json", async () => {
+    const dir = await project({
+      "package.json": JSON.stringify({
+        cmssy: {
+          pm: "pnpm",
+          apiUrl: "https://api.example.com/graphql",
+          blocksDir: "components/blocks",
+          registry: "lib/cmssy-blocks.ts",
+          style: "tailwind",
+          mount: "marketing/",
+        },
+      }),
+    });
+    expect(loadProjectConfig(dir)).toMatchObject({
+      source: "package.json",
+      pm: "pnpm",
+      apiUrl: "https://api.example.com/graphql",
+      blocksDir: join(dir, "components", "blocks"),
+      registryFile: join(dir, "lib", "cmssy-blocks.ts"),
+      style: "tailwind",
+      mount: "/marketing",
+    });
+  });
+
+  it("prefers cmssy.cli.json, and flags over both", async () => {
+    const dir = await project({
+      "package.json": JSON.stringify({ cmssy: { style: "tailwind" } }),
+      "cmssy.cli.json": JSON.stringify({ style: "none", pm: "yarn" }),
+      "templates/block/Component.tsx.tpl": "",
+    });
+    const config = loadProjectConfig(dir, {
+      pm: "bun",
+      "templates-dir": "templates",
+    });
+    expect(config).toMatchObject({
+      source: "cmssy.cli.json",
+      style: "none",
+      pm: "bun",
+      templatesDir: join(dir, "templates"),
+    });
+  });
+
+  it("names the setting or flag behind a bad value", async () => {
+    const dir = await project({
+      "cmssy.cli.json": JSON.stringify({ style: "sass", blockDir: "x" }),
+    });
+    expect(() => loadProjectConfig(dir)).toThrow(
+      'cmssy.cli.json has an unknown setting "blockDir"',
+    );
+    await writeFile(
+      join(dir, "cmssy.cli.json"),
+      JSON.stringify({ style: "sass" }),
+    );
+    expect(() => loadProjectConfig(dir)).toThrow(
+      '"style" in cmssy.cli.json must be one of: css-modules, tailwind, none.',
+    );
+    expect(() =>
+      loadProjectConfig(dir, { style: "css-modules" }),
+    ).not.toThrow();
+    expect(() =>
+      loadProjectConfig(dir, { style: "css-modules", mount: "/[slug]" }),
+    ).toThrow("--mount must be a static path like /marketing.");
+    expect(() =>
+      loadProjectConfig(dir, { style: "none", "templates-dir": "nope" }),
+    ).toThrow(ConfigError);
+  });
+});
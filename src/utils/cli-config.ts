@@ -0,0 +1,197 @@
+import { existsSync, readFileSync } from "node:fs";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { flagString, type ParsedArgs } from "./args.js";
+import { STYLE_PRESETS, type StylePreset } from "./fields.js";
+import { choosePackageManager, type PackageManager } from "./pkg.js";
+import { normalizeMount } from "./routes.js";
+
+/**
+ * Per-project CLI defaults, from `cmssy.cli.json` or the `cmssy` section of
+ * package.json (the file wins when both exist). Flags override each one.
+ * Paths are relative to the project.
+ */
+export const CLI_CONFIG_FILE = "cmssy.cli.json";
+
+/** The settings as written, before flags and defaults. */
+export interface CliSettings {
+  pm?: string;
+  apiUrl?: string;
+  blocksDir?: string;
+  registry?: string;
+  templatesDir?: string;
+  style?: string;
+  mount?: string;
+}
+
+/** setting -> the flag that overrides it */
+const FLAGS: Record<keyof CliSettings, string> = {
+  pm: "pm",
+  apiUrl: "api-url",
+  blocksDir: "blocks-dir",
+  registry: "registry",
+  templatesDir: "templates-dir",
+  style: "style",
+  mount: "mount",
+};
+
+export interface ProjectConfig {
+  cwd: string;
+  /** where the settings came from; null when there are none */
+  source: typeof CLI_CONFIG_FILE | "package.json" | null;
+  /** where app/, cmssy/ and blocks/ live by default: the project root or src/ */
+  base: string;
+  srcDir: boolean;
+  pm: PackageManager;
+  /** delivery API; undefined for the default (or CMSSY_API_URL, where read) */
+  apiUrl: string | undefined;
+  /** absolute; one folder per block */
+  blocksDir: string;
+  /** absolute path of the `export const blocks = [...]` registry */
+  registryFile: string;
+  /** absolute; overrides for the block/*.tpl templates, when set */
+  templatesDir: string | null;
+  style: StylePreset;
+  /** undefined when neither a flag nor the config sets it */
+  mount: string | undefined;
+}
+
+/** A cmssy.cli.json / package.json `cmssy` section the CLI can't use. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new ConfigError(
+      `${CLI_CONFIG_FILE} isn't valid JSON: ${(err as Error).message}`,
+    );
+  }
+}
+
+function readSettings(cwd: string): {
+  source: ProjectConfig["source"];
+  settings: CliSettings;
+} {
+  let source: ProjectConfig["source"] = null;
+  let raw: unknown;
+  if (existsSync(join(cwd, CLI_CONFIG_FILE))) {
+    source = CLI_CONFIG_FILE;
+    raw = readJson(join(cwd, CLI_CONFIG_FILE));
+  } else if (existsSync(join(cwd, "package.json"))) {
+    try {
+      raw = (
+        JSON.parse(readFileSync(join(cwd, "package.json"), "utf8")) as {
+          cmssy?: unknown;
+        }
+      ).cmssy;
+    } catch {
+      raw = undefined;
+    }
+    if (raw !== undefined) source = "package.json";
+  }
+  if (raw === undefined) return { source, settings: {} };
+
+  const where = source === "package.json" ? 'package.json "cmssy"' : source!;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(`${where} must be an object.`);
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in FLAGS)) {
+      throw new ConfigError(
+        `${where} has an unknown setting "${key}" (known: ${Object.keys(FLAGS).join(", ")}).`,
+      );
+    }
+    if (typeof value !== "string") {
+      throw new ConfigError(`${where}: "${key}" must be a string.`);
+    }
+  }
+  return { source, settings: raw as CliSettings };
+}
+
+function isUrl(value: string): boolean {
+  try {
+    return Boolean(new URL(value));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The settings every command works from: the config file's, overridden by
+ * flags, with defaults for the rest. Throws a ConfigError naming the bad
+ * value.
+ */
+export function loadProjectConfig(
+  cwd: string,
+  flags: ParsedArgs["flags"] = {},
+): ProjectConfig {
+  const { source, settings } = readSettings(cwd);
+  const value = (key: keyof CliSettings): string | undefined =>
+    flagString(flags[FLAGS[key]]) ?? settings[key];
+  const origin = (key: keyof CliSettings): string =>
+    flagString(flags[FLAGS[key]]) !== undefined
+      ? `--${FLAGS[key]}`
+      : `"${key}" in ${source}`;
+  const path = (p: string) => (isAbsolute(p) ? p : resolve(cwd, p));
+
+  const srcDir =
+    existsSync(join(cwd, "src", "cmssy", "blocks.ts")) ||
+    existsSync(join(cwd, "src", "app"));
+  const base = srcDir ? join(cwd, "src") : cwd;
+
+  const pm = value("pm");
+  if (pm !== undefined && !["npm", "pnpm", "yarn", "bun"].includes(pm)) {
+    throw new ConfigError(
+      `${origin("pm")} must be one of: npm, pnpm, yarn, bun.`,
+    );
+  }
+  const apiUrl = value("apiUrl");
+  if (apiUrl !== undefined && !isUrl(apiUrl)) {
+    throw new ConfigError(`${origin("apiUrl")} must be a URL.`);
+  }
+  const style = value("style") ?? "css-modules";
+  if (!STYLE_PRESETS.includes(style as StylePreset)) {
+    throw new ConfigError(
+      `${origin("style")} must be one of: ${STYLE_PRESETS.join(", ")}.`,
+    );
+  }
+  const rawMount = value("mount");
+  const mount = rawMount === undefined ? undefined : normalizeMount(rawMount);
+  if (mount === null) {
+    throw new ConfigError(
+      `${origin("mount")} must be a static path like /marketing.`,
+    );
+  }
+  const templatesDir = value("templatesDir");
+  if (templatesDir !== undefined && !existsSync(path(templatesDir))) {
+    throw new ConfigError(
+      `${origin("templatesDir")}: ${templatesDir} doesn't exist.`,
+    );
+  }
+  const blocksDir = value("blocksDir");
+  const registry = value("registry");
+
+  return {
+    cwd,
+    source,
+    base,
+    srcDir,
+    pm: choosePackageManager(pm, cwd),
+    apiUrl,
+    blocksDir: blocksDir ? path(blocksDir) : join(base, "blocks"),
+    registryFile: registry ? path(registry) : join(base, "cmssy", "blocks.ts"),
+    templatesDir: templatesDir ? path(templatesDir) : null,
+    style: style as StylePreset,
+    mount,
+  };
+}
+
+/** A path as messages show it: relative to the base, like `blocks/hero`. */
+export function projectPath(config: ProjectConfig, abs: string): string {
+  return relative(config.base, abs).split(sep).join("/") || ".";
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  codemodsBetween,
+  rangeFloor,
+  runCodemods,
+  satisfiesCaret,
+  type Codemod,
+} from "./codemods.js";
+
+function codemod(version: string, transform: Codemod["transform"]): Codemod {
+  return {
+    id: `v${version}`,
+    version,
+    description: `migrate to ${version}`,
+    templates: ["init/proxy.ts"],
+    transform,
+  };
+}
+
+const rename = codemod("0.6.0", (s) =>
+  s.includes("oldApi") ? s.replace("oldApi", "newApi") : s,
+);
+const strict = codemod("0.7.0", (s) => (s.includes("newApi") ? s : null));
+
+describe("rangeFloor", () => {
+  it("takes the lowest version a range allows", () => {
+    expect(rangeFloor("^0.5.6")).toEqual([0, 5, 6]);
+    expect(rangeFloor("~1.2")).toEqual([1, 2, 0]);
+    expect(rangeFloor(">=2")).toEqual([2, 0, 0]);
+  });
+
+  it("is null for tags and protocols", () => {
+    expect(rangeFloor("latest")).toBeNull();
+    expect(rangeFloor("workspace:^0.5.6")).toBeNull();
+  });
+});
+
+describe("codemodsBetween", () => {
+  it("picks the codemods past `from` up to `to`, oldest first", () => {
+    const all = [strict, rename];
+    expect(codemodsBetween("^0.5.6", "^0.7.0", all)).toEqual([rename, strict]);
+    expect(codemodsBetween("^0.6.0", "^0.7.0", all)).toEqual([strict]);
+    expect(codemodsBetween("^0.5.6", "^0.6.2", all)).toEqual([rename]);
+  });
+
+  it("runs everything up to `to` when `from` is unknown", () => {
+    expect(codemodsBetween("latest", "^0.6.0", [strict, rename])).toEqual([
+      rename,
+    ]);
+  });
+});
+
+describe("runCodemods", () => {
+  it("applies matching codemods in order", () => {
+    expect(
+      runCodemods("oldApi()", "proxy.ts", "init/proxy.ts", [rename, strict]),
+    ).toEqual({ status: "migrated", content: "newApi()", applied: ["v0.6.0"] });
+  });
+
+  it("skips codemods for other templates", () => {
+    expect(
+      runCodemods("oldApi()", "editor.tsx", "init/cmssy/editor.tsx", [rename]),
+    ).toEqual({ status: "unchanged" });
+  });
+
+  it("reports the codemod that didn't recognize the file", () => {
+    expect(
+      runCodemods("other()", "proxy.ts", "init/proxy.ts", [rename, strict]),
+    ).toEqual({ status: "failed", codemod: strict });
+  });
+});
+
+describe("satisfiesCaret", () => {
+  it("follows npm's caret rules, including 0.x", () => {
+    expect(satisfiesCaret("0.5.9", "^0.5.6")).toBe(true);
+    expect(satisfiesCaret("0.5.5", "^0.5.6")).toBe(false);
+    expect(satisfiesCaret("0.6.0", "^0.5.6")).toBe(false);
+    expect(satisfiesCaret("1.4.0", "^1.2.0")).toBe(true);
+    expect(satisfiesCaret("2.0.0", "^1.2.0")).toBe(false);
+  });
+});
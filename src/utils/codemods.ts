@@ -0,0 +1,100 @@
+/**
+ * Codemods carry files cmssy generated - and the user has since edited -
+ * across @cmssy/* API changes. Each targets the SDK version that made the
+ * change; `cmssy upgrade` runs the ones between the version a project
+ * declares and the one this CLI pins, oldest first.
+ */
+export interface Codemod {
+  id: string;
+  /** @cmssy/* version whose API change this migrates to */
+  version: string;
+  description: string;
+  /** manifest templates (e.g. `init/proxy.ts`) whose files it migrates */
+  templates: string[];
+  /**
+   * The migrated source (the same source when there is nothing to do), or
+   * null when the file no longer has a shape the codemod recognizes.
+   */
+  transform(source: string, fileName: string): string | null;
+}
+
+/**
+ * None yet: `^0.5.6` is the first @cmssy/* line this CLI supports, so there
+ * is no older API to migrate from. A release that changes the API adds its
+ * codemod here together with the CMSSY_DEPS bump.
+ */
+export const CODEMODS: Codemod[] = [];
+
+type Version = [number, number, number];
+
+/** Lowest version a range allows: `^0.5.6` -> 0.5.6, `~1.2` -> 1.2.0; null for tags. */
+export function rangeFloor(range: string): Version | null {
+  const m = /(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(range);
+  if (!m || /^[a-z]/i.test(range.trim())) return null;
+  return [Number(m[1]), Number(m[2] ?? 0), Number(m[3] ?? 0)];
+}
+
+export function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Whether an exact version falls in a caret range, with npm's 0.x rules:
+ * `^0.5.6` allows 0.5.6 up to (not including) 0.6.0.
+ */
+export function satisfiesCaret(version: string, range: string): boolean {
+  const v = rangeFloor(version);
+  const lo = rangeFloor(range);
+  if (!v || !lo || compareVersions(v, lo) < 0) return false;
+  if (lo[0] > 0) return v[0] === lo[0];
+  if (lo[1] > 0) return v[0] === 0 && v[1] === lo[1];
+  return v[0] === 0 && v[1] === 0 && v[2] === lo[2];
+}
+
+/**
+ * Codemods for moving from the `from` range to the `to` range, oldest
+ * first. With an unknown `from` (a tag, or nothing declared) every codemod
+ * up to `to` runs; they leave already-migrated files alone.
+ */
+export function codemodsBetween(
+  from: string | undefined,
+  to: string,
+  codemods: Codemod[] = CODEMODS,
+): Codemod[] {
+  const lo = from ? rangeFloor(from) : null;
+  const hi = rangeFloor(to);
+  if (!hi) return [];
+  return codemods
+    .map((c) => ({ c, v: rangeFloor(c.version)! }))
+    .filter(({ v }) => compareVersions(v, hi) <= 0)
+    .filter(({ v }) => !lo || compareVersions(v, lo) > 0)
+    .sort((a, b) => compareVersions(a.v, b.v))
+    .map(({ c }) => c);
+}
+
+export type CodemodOutcome =
+  | { status: "migrated"; content: string; applied: string[] }
+  | { status: "unchanged" }
+  /** a codemod didn't recognize the file; nothing is applied */
+  | { status: "failed"; codemod: Codemod };
+
+/** Run every codemod that targets `template` over one file's source, in order. */
+export function runCodemods(
+  source: string,
+  fileName: string,
+  template: string,
+  codemods: Codemod[],
+): CodemodOutcome {
+  let content = source;
+  const applied: string[] = [];
+  for (const codemod of codemods) {
+    if (!codemod.templates.includes(template)) continue;
+    const next = codemod.transform(content, fileName);
+    if (next === null) return { status: "failed", codemod };
+    if (next !== content) applied.push(codemod.id);
+    content = next;
+  }
+  return applied.length
+    ? { status: "migrated", content, applied }
+    : { status: "unchanged" };
+}
@@ -4,5 +4,18 @@ export const CMSSY_DEPS: Record<string, string> = {
   "@cmssy/react": "^0.5.6",
 };
 
+/**
+ * The @cmssy/* lines this CLI's templates are written for, and the oldest
+ * `next` and `react` each one supports. Newest first.
+ */
+export const SDK_COMPATIBILITY: Array<{
+  sdk: string;
+  next: string;
+  react: string;
+}> = [{ sdk: "^0.5.6", next: "15.0.0", react: "19.0.0" }];
+
+/** Env vars `cmssy link` writes to .env (and, empty, to .env.example). */
+export const CMSSY_ENV_KEYS = ["CMSSY_WORKSPACE_SLUG", "CMSSY_DRAFT_SECRET"];
+
 export const DOCS_URL = "https://www.cmssy.com/docs";
 export const HEADLESS_SETTINGS_HINT = "cmssy dashboard -> Settings -> Headless";
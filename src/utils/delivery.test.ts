@@ -21,12 +21,15 @@ describe("resolveWorkspace", () => {
         publicSiteConfig: {
           siteName: { en: "My Site", de: "Meine Seite" },
           defaultLanguage: "de",
+          enabledLanguages: ["de", "en"],
         },
       },
     });
     expect(await resolveWorkspace("demo")).toEqual({
       status: "found",
       siteName: "Meine Seite",
+      defaultLanguage: "de",
+      languages: ["de", "en"],
     });
   });
 
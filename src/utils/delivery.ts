@@ -22,7 +22,12 @@ function pickName(
 }
 
 export type WorkspaceLookup =
-  | { status: "found"; siteName: string | null }
+  | {
+      status: "found";
+      siteName: string | null;
+      defaultLanguage: string | null;
+      languages: string[];
+    }
   | { status: "not-found" }
   | { status: "error"; message: string };
 
@@ -51,6 +56,7 @@ export async function resolveWorkspace(
         publicSiteConfig: {
           siteName?: string | Record<string, string> | null;
           defaultLanguage?: string;
+          enabledLanguages?: string[] | null;
         } | null;
       };
     };
@@ -59,6 +65,8 @@ export async function resolveWorkspace(
     return {
       status: "found",
       siteName: pickName(config.siteName, config.defaultLanguage),
+      defaultLanguage: config.defaultLanguage ?? null,
+      languages: config.enabledLanguages ?? [],
     };
   } catch (err) {
     return {
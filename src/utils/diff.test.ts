@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { maskEnv, unifiedDiff } from "./diff.js";
+
+describe("unifiedDiff", () => {
+  it("returns nothing for identical content", () => {
+    expect(unifiedDiff("a.txt", "x\n", "x\n")).toBe("");
+  });
+
+  it("shows a new file against /dev/null", () => {
+    expect(unifiedDiff("a.txt", null, "one\ntwo\n")).toBe(
+      ["--- /dev/null", "+++ b/a.txt", "@@ -0,0 +1,2 @@", "+one", "+two"].join(
+        "\n",
+      ),
+    );
+  });
+
+  it("keeps three lines of context around a change", () => {
+    const before = "1\n2\n3\n4\n5\n6\n7\n8\n";
+    const after = "1\n2\n3\n4\nfive\n6\n7\n8\n";
+    expect(unifiedDiff("n.txt", before, after)).toBe(
+      [
+        "--- a/n.txt",
+        "+++ b/n.txt",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n"),
+    );
+  });
+
+  it("masks secrets in .env files but not in .env.example", () => {
+    const out = unifiedDiff(".env", null, "CMSSY_DRAFT_SECRET=abc\nSLUG=x\n");
+    expect(out).toContain("+CMSSY_DRAFT_SECRET=********");
+    expect(out).toContain("+SLUG=x");
+    expect(
+      unifiedDiff(".env.example", null, "CMSSY_DRAFT_SECRET=\n"),
+    ).toContain("+CMSSY_DRAFT_SECRET=");
+  });
+});
+
+describe("maskEnv", () => {
+  it("leaves empty secret values alone", () => {
+    expect(maskEnv("API_TOKEN=\nAPI_TOKEN2=x\n")).toBe(
+      "API_TOKEN=\nAPI_TOKEN2=x\n",
+    );
+  });
+});
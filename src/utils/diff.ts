@@ -0,0 +1,176 @@
+import { basename, relative, sep } from "node:path";
+import { endDryRun, plannedChanges, type PlannedChange } from "./files.js";
+import { isJson, report } from "./output.js";
+import { pc } from "./ui.js";
+
+type Op = { kind: " " | "-" | "+"; text: string };
+
+const CONTEXT = 3;
+const SECRET_KEY = /(SECRET|TOKEN|PASSWORD|PRIVATE|_KEY)$/;
+
+/** Line-level diff via longest common subsequence (inputs are small files). */
+function diffLines(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0),
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: " ", text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      ops.push({ kind: "-", text: a[i++]! });
+    } else {
+      ops.push({ kind: "+", text: b[j++]! });
+    }
+  }
+  while (i < n) ops.push({ kind: "-", text: a[i++]! });
+  while (j < m) ops.push({ kind: "+", text: b[j++]! });
+  return ops;
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Hide values of secret-looking keys in dotenv content. */
+export function maskEnv(content: string): string {
+  return content.replace(
+    /^([A-Z0-9_]+)=(.+)$/gm,
+    (line, key: string, value: string) =>
+      SECRET_KEY.test(key) && value.trim() ? `${key}=********` : line,
+  );
+}
+
+function isEnvFile(path: string): boolean {
+  const name = basename(path);
+  return (
+    name === ".env" || (name.startsWith(".env.") && name !== ".env.example")
+  );
+}
+
+/**
+ * Unified diff (`diff -u` style) between two versions of a file; `before`
+ * null means the file is new, `after` null that it is removed. Returns ""
+ * when nothing changed.
+ */
+export function unifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  opts: { color?: boolean } = {},
+): string {
+  const mask = isEnvFile(path) ? maskEnv : (s: string) => s;
+  const a = splitLines(before === null ? "" : mask(before));
+  const b = splitLines(after === null ? "" : mask(after));
+  const ops = diffLines(a, b);
+  if (!ops.some((o) => o.kind !== " ")) return "";
+
+  const color = opts.color ?? false;
+  const paint = (kind: Op["kind"] | "@", s: string): string => {
+    if (!color) return s;
+    if (kind === "-") return pc.red(s);
+    if (kind === "+") return pc.green(s);
+    if (kind === "@") return pc.cyan(s);
+    return s;
+  };
+
+  const header = [
+    before === null ? "--- /dev/null" : `--- a/${path}`,
+    after === null ? "+++ /dev/null" : `+++ b/${path}`,
+  ];
+  const out = color ? header.map((h) => pc.bold(h)) : header;
+
+  // Group changes into hunks, merging ones whose context would overlap.
+  let k = 0;
+  while (k < ops.length) {
+    while (k < ops.length && ops[k]!.kind === " ") k++;
+    if (k >= ops.length) break;
+    const start = Math.max(0, k - CONTEXT);
+    let lastChange = k;
+    for (let x = k; x < ops.length && x - lastChange <= CONTEXT * 2; x++) {
+      if (ops[x]!.kind !== " ") lastChange = x;
+    }
+    const end = Math.min(ops.length, lastChange + CONTEXT + 1);
+
+    let aLine = 1;
+    let bLine = 1;
+    for (const o of ops.slice(0, start)) {
+      if (o.kind !== "+") aLine++;
+      if (o.kind !== "-") bLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const aLen = hunk.filter((o) => o.kind !== "+").length;
+    const bLen = hunk.filter((o) => o.kind !== "-").length;
+    out.push(
+      paint(
+        "@",
+        `@@ -${aLen ? aLine : aLine - 1},${aLen} +${bLen ? bLine : bLine - 1},${bLen} @@`,
+      ),
+    );
+    for (const o of hunk) out.push(paint(o.kind, `${o.kind}${o.text}`));
+    k = end;
+  }
+  return out.join("\n");
+}
+
+/** Coloured unified diffs for a dry run's planned writes, paths relative to `cwd`. */
+export function formatPlan(changes: PlannedChange[], cwd: string): string {
+  return changes
+    .map((c) =>
+      unifiedDiff(
+        relative(cwd, c.path).split(sep).join("/"),
+        c.before,
+        c.after,
+        { color: true },
+      ),
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Print a dry run's planned changes (or say there are none) and leave
+ * dry-run mode. With --json they become the result's `plan`, uncoloured.
+ */
+export function printPlan(cwd: string): void {
+  if (isJson()) {
+    const changes = plannedChanges();
+    endDryRun();
+    report({
+      plan: changes.map((c) => {
+        const path = relative(cwd, c.path).split(sep).join("/");
+        return {
+          path,
+          change:
+            c.before === null
+              ? "create"
+              : c.after === null
+                ? "delete"
+                : "modify",
+          diff: unifiedDiff(path, c.before, c.after),
+        };
+      }),
+    });
+    return;
+  }
+  const plan = formatPlan(plannedChanges(), cwd);
+  endDryRun();
+  console.log(plan ? `\n${plan}\n` : pc.dim("\nNo file changes.\n"));
+}
@@ -0,0 +1,146 @@
+import ts from "typescript";
+
+/**
+ * Text-splice editing of TS/JS sources: callers find nodes with the compiler
+ * API and replace character ranges, so everything around an edit (comments,
+ * quotes, formatting) stays as the user wrote it.
+ */
+export interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Apply edits by original offsets. Insertions at one spot keep their order
+ * and land before a replacement that starts there.
+ */
+export function applyEdits(source: string, edits: Edit[]): string {
+  let out = source;
+  const order = edits.map((e, i) => ({ e, i }));
+  const inserts = (e: Edit) => (e.end === e.start ? 1 : 0);
+  order.sort(
+    (a, b) => b.e.start - a.e.start || inserts(a.e) - inserts(b.e) || b.i - a.i,
+  );
+  for (const { e } of order) {
+    out = out.slice(0, e.start) + e.text + out.slice(e.end);
+  }
+  return out;
+}
+
+export function lineStart(source: string, pos: number): number {
+  return source.lastIndexOf("\n", pos - 1) + 1;
+}
+
+export function indentAt(source: string, pos: number): string {
+  const start = lineStart(source, pos);
+  return /^[ \t]*/.exec(source.slice(start))![0];
+}
+
+export type CommaList =
+  ts.ArrayLiteralExpression | ts.NamedImports | ts.ObjectLiteralExpression;
+
+function itemsOf(list: CommaList): ts.NodeArray<ts.Node> {
+  return ts.isObjectLiteralExpression(list) ? list.properties : list.elements;
+}
+
+function openToken(sf: ts.SourceFile, list: CommaList): ts.Node {
+  return list.getFirstToken(sf)!;
+}
+
+function closeToken(sf: ts.SourceFile, list: CommaList): ts.Node {
+  return list.getLastToken(sf)!;
+}
+
+/** The `,` token that follows item `i` of the list, if any. */
+function commaAfter(
+  sf: ts.SourceFile,
+  list: CommaList,
+  i: number,
+): ts.Node | undefined {
+  const el = itemsOf(list)[i]!;
+  const syntax = list
+    .getChildren(sf)
+    .find((c) => c.kind === ts.SyntaxKind.SyntaxList)!;
+  const items = syntax.getChildren(sf);
+  const next = items[items.indexOf(el) + 1];
+  return next?.kind === ts.SyntaxKind.CommaToken ? next : undefined;
+}
+
+/** End of `pos` plus any comments trailing it on the same line. */
+function endWithTrailingComments(source: string, pos: number): number {
+  const ranges = ts.getTrailingCommentRanges(source, pos) ?? [];
+  return ranges.reduce((end, r) => Math.max(end, r.end), pos);
+}
+
+/** Whether each item sits on its own line (`[\n  a,\n  b,\n]`). */
+export function isMultiline(sf: ts.SourceFile, list: CommaList): boolean {
+  const first = itemsOf(list)[0];
+  if (!first) return false;
+  const line = (pos: number) => sf.getLineAndCharacterOfPosition(pos).line;
+  return line(openToken(sf, list).getStart(sf)) !== line(first.getStart(sf));
+}
+
+/** Text range that removes item `i` of the list together with one separator. */
+export function removalEdit(
+  source: string,
+  sf: ts.SourceFile,
+  list: CommaList,
+  i: number,
+): Edit {
+  const items = itemsOf(list);
+  const el = items[i]!;
+  const comma = commaAfter(sf, list, i);
+  const next = items[i + 1];
+  if (isMultiline(sf, list)) {
+    // Drop the item's whole line, with its comma and any trailing comment.
+    const start = lineStart(source, el.getStart(sf));
+    let end = endWithTrailingComments(source, comma ? comma.end : el.end);
+    const eol = /^[ \t]*\n/.exec(source.slice(end));
+    if (eol) end += eol[0].length;
+    return { start, end, text: "" };
+  }
+  if (next) return { start: el.getStart(sf), end: next.getStart(sf), text: "" };
+  if (i > 0) {
+    const sep = commaAfter(sf, list, i - 1)!;
+    return { start: sep.getStart(sf), end: el.end, text: "" };
+  }
+  return { start: el.getStart(sf), end: comma ? comma.end : el.end, text: "" };
+}
+
+/**
+ * Text edits that append `text` as a new last item of a comma list. In a
+ * multi-line list, continuation lines of `text` are indented to match.
+ */
+export function appendEdits(
+  source: string,
+  sf: ts.SourceFile,
+  list: CommaList,
+  text: string,
+): Edit[] {
+  const items = itemsOf(list);
+  const count = items.length;
+  const last = items[count - 1];
+  if (!last) {
+    const at = closeToken(sf, list).getStart(sf);
+    const padded = ts.isObjectLiteralExpression(list) ? ` ${text} ` : text;
+    return [{ start: at, end: at, text: padded }];
+  }
+  const comma = commaAfter(sf, list, count - 1);
+  if (isMultiline(sf, list)) {
+    const indent = indentAt(source, last.getStart(sf));
+    const item = text.split("\n").join(`\n${indent}`);
+    if (comma) {
+      const at = endWithTrailingComments(source, comma.end);
+      return [{ start: at, end: at, text: `\n${indent}${item},` }];
+    }
+    // The separator goes before any `// comment` on the last item's line.
+    const at = endWithTrailingComments(source, last.end);
+    return [
+      { start: last.end, end: last.end, text: "," },
+      { start: at, end: at, text: `\n${indent}${item}` },
+    ];
+  }
+  const at = comma ? comma.end : endWithTrailingComments(source, last.end);
+  return [{ start: at, end: at, text: comma ? ` ${text},` : `, ${text}` }];
+}
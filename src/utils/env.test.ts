@@ -1,8 +1,15 @@
+import { existsSync } from "node:fs";
 import { mkdtemp, readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
-import { setEnvVars } from "./env.js";
+import {
+  envFiles,
+  parseEnv,
+  removeEnvVars,
+  resolveEnv,
+  setEnvVars,
+} from "./env.js";
 
 async function tmp(): Promise<string> {
   const dir = await mkdtemp(join(tmpdir(), "cmssy-env-"));
@@ -49,3 +56,82 @@ describe("setEnvVars", () => {
     expect(await readFile(f, "utf8")).toBe("K=v # from settings\n");
   });
 });
+
+describe("removeEnvVars", () => {
+  it("removes keys and the comments cmssy wrote above them", async () => {
+    const f = await tmp();
+    await writeFile(f, "# ours\nA=1\n# theirs\nKEEP=yes\nB=2\n");
+    expect(
+      await removeEnvVars(f, ["A", "B"], { comments: ["# ours"] }),
+    ).toEqual(["A", "B"]);
+    expect(await readFile(f, "utf8")).toBe("# theirs\nKEEP=yes\n");
+  });
+
+  it("deletes a file left empty", async () => {
+    const f = await tmp();
+    await writeFile(f, "A=1\n\n");
+    await removeEnvVars(f, ["A"]);
+    expect(existsSync(f)).toBe(false);
+  });
+});
+
+describe("parseEnv", () => {
+  it("reads quotes, export and inline comments like dotenv", () => {
+    expect(
+      parseEnv(
+        [
+          "# comment",
+          "A=plain # note",
+          'B="two words" # note',
+          "export C='x#y'",
+          'D="line\\nbreak"',
+          "E=",
+        ].join("\n"),
+      ),
+    ).toEqual({
+      A: "plain",
+      B: "two words",
+      C: "x#y",
+      D: "line\nbreak",
+      E: "",
+    });
+  });
+});
+
+describe("resolveEnv", () => {
+  async function project(files: Record<string, string>): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-env-"));
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(dir, name), content);
+    }
+    return dir;
+  }
+
+  it("follows Next's file precedence for the mode", async () => {
+    const dir = await project({
+      ".env": "K=base\n",
+      ".env.local": "K=local\n",
+      ".env.production": "K=prod\n",
+    });
+    const [dev] = resolveEnv(dir, ["K"], { processEnv: {} });
+    expect(dev).toMatchObject({ value: "local", source: ".env.local" });
+    expect(dev!.definitions.map((d) => d.file)).toEqual([".env.local", ".env"]);
+
+    const [test] = resolveEnv(dir, ["K"], { mode: "test", processEnv: {} });
+    expect(test).toMatchObject({ value: "base", source: ".env" });
+    expect(envFiles("test")).not.toContain(".env.local");
+  });
+
+  it("lets the process environment win", async () => {
+    const dir = await project({ ".env": "K=file\n" });
+    const [v] = resolveEnv(dir, ["K"], { processEnv: { K: "ci" } });
+    expect(v).toMatchObject({ value: "ci", source: "process.env" });
+  });
+
+  it("notices keys set only in .env.example", async () => {
+    const dir = await project({ ".env.example": "K=example\nEMPTY=\n" });
+    const [k, empty] = resolveEnv(dir, ["K", "EMPTY"], { processEnv: {} });
+    expect(k).toMatchObject({ value: undefined, exampleOnly: true });
+    expect(empty!.exampleOnly).toBe(false);
+  });
+});
@@ -1,5 +1,11 @@
-import { readFile, writeFile } from "node:fs/promises";
-import { pathExists } from "./files.js";
+import { join } from "node:path";
+import {
+  pathExists,
+  readText,
+  readTextSync,
+  removeFile,
+  writeText,
+} from "./files.js";
 
 const KEY_LINE = /^([A-Z0-9_]+)=(.*)$/;
 
@@ -13,7 +19,7 @@ export async function setEnvVars(
   vars: Record<string, string>,
   opts: { overwrite?: boolean } = {},
 ): Promise<void> {
-  const existing = pathExists(filePath) ? await readFile(filePath, "utf8") : "";
+  const existing = pathExists(filePath) ? await readText(filePath) : "";
   const lines = existing.length ? existing.replace(/\n$/, "").split("\n") : [];
   const remaining = new Set(Object.keys(vars));
 
@@ -34,5 +40,127 @@ export async function setEnvVars(
     next.push(`${key}=${vars[key]}`);
   }
 
-  await writeFile(filePath, next.join("\n") + "\n", "utf8");
+  await writeText(filePath, next.join("\n") + "\n");
+}
+
+/**
+ * Remove keys from a dotenv file, together with comment lines directly above
+ * them that appear in `comments` (the ones cmssy wrote). Deletes the file when
+ * nothing but blank lines is left. Returns the keys that were there.
+ */
+export async function removeEnvVars(
+  filePath: string,
+  keys: string[],
+  opts: { comments?: string[] } = {},
+): Promise<string[]> {
+  if (!pathExists(filePath)) return [];
+  const lines = (await readText(filePath)).replace(/\n$/, "").split("\n");
+  const ours = new Set(opts.comments ?? []);
+  const removed: string[] = [];
+  const next: string[] = [];
+  for (const line of lines) {
+    const key = KEY_LINE.exec(line)?.[1];
+    if (!key || !keys.includes(key)) {
+      next.push(line);
+      continue;
+    }
+    removed.push(key);
+    while (next.length && ours.has(next[next.length - 1]!)) next.pop();
+  }
+  if (!removed.length) return [];
+  if (next.every((l) => !l.trim())) {
+    await removeFile(filePath);
+  } else {
+    await writeText(filePath, next.join("\n") + "\n");
+  }
+  return removed;
+}
+
+export const ENV_MODES = ["development", "production", "test"] as const;
+export type EnvMode = (typeof ENV_MODES)[number];
+
+/** Where a value came from: a dotenv file name, or the process environment. */
+export const PROCESS_ENV = "process.env";
+
+/**
+ * The dotenv files Next.js loads for `mode`, highest precedence first.
+ * `.env.local` is left out in test mode, as Next does.
+ */
+export function envFiles(mode: EnvMode): string[] {
+  return [
+    `.env.${mode}.local`,
+    ...(mode === "test" ? [] : [".env.local"]),
+    `.env.${mode}`,
+    ".env",
+  ];
+}
+
+const ASSIGNMENT = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/;
+
+/** Parse dotenv content the way dotenv does: quotes, `export`, inline comments. */
+export function parseEnv(content: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const m = ASSIGNMENT.exec(line);
+    if (!m) continue;
+    const raw = m[2]!.trim();
+    const quoted = /^(["'`])(.*?)\1\s*(?:#.*)?$/.exec(raw);
+    vars[m[1]!] = quoted
+      ? quoted[1] === '"'
+        ? quoted[2]!.replace(/\\n/g, "\n")
+        : quoted[2]!
+      : raw.replace(/\s+#.*$/, "").trim();
+  }
+  return vars;
+}
+
+export interface ResolvedEnvVar {
+  key: string;
+  /** the value Next would see, undefined when nothing sets it */
+  value?: string;
+  /** file name (or PROCESS_ENV) the value comes from */
+  source?: string;
+  /** every loaded file that defines the key, highest precedence first */
+  definitions: Array<{ file: string; value: string }>;
+  /** set, but only in .env.example, which Next never loads */
+  exampleOnly: boolean;
+}
+
+/**
+ * Resolve `keys` as `next dev`/`next build` would for `mode`: the process
+ * environment wins, then the first of envFiles(mode) that defines the key.
+ */
+export function resolveEnv(
+  projectDir: string,
+  keys: readonly string[],
+  opts: { mode?: EnvMode; processEnv?: NodeJS.ProcessEnv } = {},
+): ResolvedEnvVar[] {
+  const processEnv = opts.processEnv ?? process.env;
+  const read = (file: string) => {
+    const path = join(projectDir, file);
+    return pathExists(path) ? parseEnv(readTextSync(path)) : {};
+  };
+  const files = envFiles(opts.mode ?? "development").map((file) => ({
+    file,
+    vars: read(file),
+  }));
+  const example = read(".env.example");
+
+  return keys.map((key) => {
+    const definitions = files
+      .filter((f) => key in f.vars)
+      .map((f) => ({ file: f.file, value: f.vars[key]! }));
+    const fromProcess = processEnv[key];
+    const winner =
+      fromProcess !== undefined
+        ? { file: PROCESS_ENV, value: fromProcess }
+        : definitions[0];
+    return {
+      key,
+      value: winner?.value,
+      source: winner?.file,
+      definitions,
+      exampleOnly: !winner && Boolean(example[key]),
+    };
+  });
 }
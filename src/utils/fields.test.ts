@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FIELDS,
+  fieldLabel,
+  fieldTemplateVars,
+  parseFieldSpec,
+  parseFieldSpecs,
+} from "./fields.js";
+import { readTemplate, renderTemplate } from "./templates.js";
+
+describe("parseFieldSpec", () => {
+  it("parses name, kind and the required marker", () => {
+    expect(parseFieldSpec("title:singleLine!")).toEqual({
+      name: "title",
+      kind: "singleLine",
+      label: "Title",
+      required: true,
+    });
+    expect(parseFieldSpec("plans:repeater")).toMatchObject({
+      kind: "repeater",
+      required: false,
+    });
+  });
+
+  it("defaults the kind to singleLine", () => {
+    expect(parseFieldSpec("eyebrow").kind).toBe("singleLine");
+  });
+
+  it("rejects unknown kinds and invalid names", () => {
+    expect(() => parseFieldSpec("x:table")).toThrow(/Unknown field kind/);
+    expect(() => parseFieldSpec("cta-url:link")).toThrow(/valid identifier/);
+  });
+
+  it("rejects duplicate names", () => {
+    expect(() => parseFieldSpecs(["a", "a:link"])).toThrow(/Duplicate/);
+  });
+});
+
+describe("fieldLabel", () => {
+  it("sentence-cases camelCase names", () => {
+    expect(fieldLabel("primaryButtonUrl")).toBe("Primary button url");
+    expect(fieldLabel("title")).toBe("Title");
+  });
+});
+
+describe("fieldTemplateVars", () => {
+  const render = (tpl: string, fields = DEFAULT_FIELDS) =>
+    renderTemplate(readTemplate("block", tpl), {
+      type: "pricing",
+      camel: "pricing",
+      Pascal: "Pricing",
+      Label: "Pricing",
+      ...fieldTemplateVars(fields),
+    });
+
+  it("renders the single-heading stub by default", () => {
+    expect(render("block.ts.tpl")).toContain(
+      '    heading: fields.singleLine({ label: "Heading" }),\n  },',
+    );
+    const tsx = render("Component.tsx.tpl");
+    expect(tsx).toContain("  heading?: string;");
+    expect(tsx).toContain("  if (!heading) return null;");
+    expect(tsx).toContain("<h2 className={styles.heading}>{heading}</h2>");
+    expect(render("Component.module.css.tpl")).toContain(".heading {");
+  });
+
+  it("keeps props, content type and render in step", () => {
+    const fields = parseFieldSpecs([
+      "title:singleLine!",
+      "plans:repeater",
+      "cta:link",
+      "image:media",
+    ]);
+    const block = render("block.ts.tpl", fields);
+    expect(block).toContain(
+      'title: fields.singleLine({ label: "Title", required: true }),',
+    );
+    expect(block).toContain("plans: fields.repeater({");
+    expect(block).toContain('cta: fields.link({ label: "Cta" }),');
+    expect(block).toContain('image: fields.media({ label: "Image" }),');
+
+    const tsx = render("Component.tsx.tpl", fields);
+    expect(tsx.startsWith('import Image from "next/image";\n')).toBe(true);
+    expect(tsx).toContain('import { CmssyLink } from "@cmssy/next/client";');
+    expect(tsx).toContain("  plans?: Array<{ text?: string }>;");
+    expect(tsx).toContain("  const { title, plans, cta, image } = content;");
+    expect(tsx).toContain("  if (!title) return null;");
+    expect(tsx).toContain("{plans && plans.length > 0 && (");
+    expect(tsx).toContain("<CmssyLink href={cta} className={styles.link}>");
+
+    const css = render("Component.module.css.tpl", fields);
+    expect(css).toContain(".list {");
+    expect(css).toContain(".media {");
+    expect(css).not.toContain(".text {");
+  });
+
+  it("uses Tailwind classes or no classes for the other style presets", () => {
+    const fields = parseFieldSpecs(["title", "image:media"]);
+    const tailwind = fieldTemplateVars(fields, "tailwind");
+    expect(tailwind.body).toContain('<h2 className="m-0 text-2xl font-bold">');
+    expect(tailwind.body).toContain(
+      '<div className="relative mt-6 aspect-video overflow-hidden rounded-lg">',
+    );
+    expect(tailwind.body).not.toContain("styles.");
+
+    const plain = fieldTemplateVars(fields, "none");
+    expect(plain.body).toContain("<h2>{title}</h2>");
+    expect(plain.body).toContain(
+      '<div style={{ position: "relative", aspectRatio: "16 / 9" }}>',
+    );
+    expect(plain.body).not.toContain("className");
+  });
+});
@@ -0,0 +1,296 @@
+export const FIELD_KINDS = [
+  "singleLine",
+  "multiLine",
+  "link",
+  "media",
+  "repeater",
+] as const;
+
+export type FieldKind = (typeof FIELD_KINDS)[number];
+
+export interface FieldSpec {
+  name: string;
+  kind: FieldKind;
+  label: string;
+  required: boolean;
+}
+
+/** What a block gets when no fields are declared: the historical stub. */
+export const DEFAULT_FIELDS: FieldSpec[] = [
+  { name: "heading", kind: "singleLine", label: "Heading", required: false },
+];
+
+const IDENTIFIER = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+function isFieldKind(value: string): value is FieldKind {
+  return (FIELD_KINDS as readonly string[]).includes(value);
+}
+
+/** `primaryButtonUrl` -> `Primary button url`, matching the hero's labels. */
+export function fieldLabel(name: string): string {
+  const text = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_$]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return text ? text[0]!.toUpperCase() + text.slice(1) : name;
+}
+
+export function validateFieldName(name: string): string | undefined {
+  if (!name) return "Field name is required.";
+  if (!IDENTIFIER.test(name)) {
+    return `Field name "${name}" must be a valid identifier (e.g. title, ctaUrl).`;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a `--field` spec: `name[:kind][!]`. The kind defaults to singleLine;
+ * a trailing `!` marks the field required.
+ */
+export function parseFieldSpec(spec: string): FieldSpec {
+  let raw = spec.trim();
+  const required = raw.endsWith("!");
+  if (required) raw = raw.slice(0, -1);
+
+  const colon = raw.indexOf(":");
+  const name = (colon === -1 ? raw : raw.slice(0, colon)).trim();
+  const kind = colon === -1 ? "singleLine" : raw.slice(colon + 1).trim();
+
+  const invalid = validateFieldName(name);
+  if (invalid) throw new Error(invalid);
+  if (!isFieldKind(kind)) {
+    throw new Error(
+      `Unknown field kind "${kind}" in "${spec}". Use one of: ${FIELD_KINDS.join(", ")}.`,
+    );
+  }
+  return { name, kind, label: fieldLabel(name), required };
+}
+
+export function parseFieldSpecs(specs: string[]): FieldSpec[] {
+  const fields = specs.map(parseFieldSpec);
+  const seen = new Set<string>();
+  for (const f of fields) {
+    if (seen.has(f.name)) throw new Error(`Duplicate field "${f.name}".`);
+    seen.add(f.name);
+  }
+  return fields;
+}
+
+/** Template vars for block.ts.tpl / Component.tsx.tpl / Component.module.css.tpl. */
+export interface FieldTemplateVars {
+  props: string;
+  contentType: string;
+  destructure: string;
+  guard: string;
+  imports: string;
+  body: string;
+  styles: string;
+}
+
+/** How `add block` styles a component: a CSS Module, Tailwind classes, or nothing. */
+export const STYLE_PRESETS = ["css-modules", "tailwind", "none"] as const;
+export type StylePreset = (typeof STYLE_PRESETS)[number];
+
+const CLASS_RULES: Record<string, string> = {
+  heading: `.heading {
+  margin: 0;
+  font-size: 1.5rem;
+  font-weight: 700;
+}`,
+  text: `.text {
+  margin: 1rem 0 0;
+  line-height: 1.6;
+}`,
+  link: `.link {
+  display: inline-block;
+  margin-top: 1.5rem;
+  font-weight: 500;
+}`,
+  media: `.media {
+  position: relative;
+  margin-top: 1.5rem;
+  aspect-ratio: 16 / 9;
+  overflow: hidden;
+  border-radius: 0.5rem;
+}`,
+  list: `.list {
+  margin: 1.5rem 0 0;
+  padding-left: 1.25rem;
+}`,
+};
+
+/** The Tailwind equivalents of CLASS_RULES. */
+const TAILWIND_CLASSES: Record<string, string> = {
+  heading: "m-0 text-2xl font-bold",
+  text: "mt-4 leading-relaxed",
+  link: "mt-6 inline-block font-medium",
+  media: "relative mt-6 aspect-video overflow-hidden rounded-lg",
+  list: "mt-6 list-disc pl-5",
+};
+
+/** The className attribute for one of the CLASS_RULES classes, with its leading space. */
+function classAttr(style: StylePreset, name: string): string {
+  if (style === "none") return "";
+  return style === "tailwind"
+    ? ` className="${TAILWIND_CLASSES[name]}"`
+    : ` className={styles.${name}}`;
+}
+
+function propLines(f: FieldSpec): string[] {
+  const opts = `label: ${JSON.stringify(f.label)}${f.required ? ", required: true" : ""}`;
+  if (f.kind !== "repeater") {
+    return [`    ${f.name}: fields.${f.kind}({ ${opts} }),`];
+  }
+  return [
+    `    ${f.name}: fields.repeater({`,
+    `      label: ${JSON.stringify(f.label)},`,
+    ...(f.required ? ["      required: true,"] : []),
+    "      schema: {",
+    '        text: fields.singleLine({ label: "Text" }),',
+    "      },",
+    "    }),",
+  ];
+}
+
+function contentTypeLine(f: FieldSpec): string {
+  const type = f.kind === "repeater" ? "Array<{ text?: string }>" : "string";
+  return `  ${f.name}?: ${type};`;
+}
+
+/** JSX for one field, plus the CSS class it uses. */
+function element(
+  f: FieldSpec,
+  isHeading: boolean,
+  style: StylePreset,
+): { lines: string[]; className: string } {
+  const cls = (name: string) => classAttr(style, name);
+  switch (f.kind) {
+    case "singleLine":
+    case "multiLine":
+      return isHeading
+        ? {
+            lines: [`<h2${cls("heading")}>{${f.name}}</h2>`],
+            className: "heading",
+          }
+        : {
+            lines: [`<p${cls("text")}>{${f.name}}</p>`],
+            className: "text",
+          };
+    case "link":
+      return {
+        lines: [
+          `<CmssyLink href={${f.name}}${cls("link")}>`,
+          `  ${f.label}`,
+          "</CmssyLink>",
+        ],
+        className: "link",
+      };
+    case "media":
+      return {
+        lines: [
+          // `fill` needs a positioned parent, with or without a stylesheet.
+          style === "none"
+            ? '<div style={{ position: "relative", aspectRatio: "16 / 9" }}>'
+            : `<div${cls("media")}>`,
+          "  <Image",
+          `    src={${f.name}}`,
+          '    alt=""',
+          "    fill",
+          '    sizes="(max-width: 768px) 100vw, 768px"',
+          '    style={{ objectFit: "cover" }}',
+          "  />",
+          "</div>",
+        ],
+        className: "media",
+      };
+    case "repeater":
+      return {
+        lines: [
+          `<ul${cls("list")}>`,
+          `  {${f.name}.map((item, i) => (`,
+          "    <li key={i}>{item.text}</li>",
+          "  ))}",
+          "</ul>",
+        ],
+        className: "list",
+      };
+  }
+}
+
+function presence(f: FieldSpec): string {
+  return f.kind === "repeater" ? `${f.name}?.length` : f.name;
+}
+
+function shown(f: FieldSpec): string {
+  return f.kind === "repeater" ? `${f.name} && ${f.name}.length > 0` : f.name;
+}
+
+function indent(lines: string[], spaces: number): string[] {
+  const pad = " ".repeat(spaces);
+  return lines.map((l) => pad + l);
+}
+
+/**
+ * Render the field-dependent parts of the block templates so block.ts props,
+ * the `{{Pascal}}Content` type and the component body always agree. `style`
+ * picks how the body's elements get their classes.
+ */
+export function fieldTemplateVars(
+  fields: FieldSpec[],
+  style: StylePreset = "css-modules",
+): FieldTemplateVars {
+  if (fields.length === 0) throw new Error("A block needs at least one field.");
+
+  // The component renders nothing until its required fields are set; with no
+  // required fields it waits for the first one, like the default stub.
+  const guarded = fields.some((f) => f.required)
+    ? fields.filter((f) => f.required)
+    : [fields[0]!];
+  const guardedNames = new Set(guarded.map((f) => f.name));
+  const heading = fields.find((f) => f.kind === "singleLine");
+
+  const classNames = new Set<string>();
+  const body: string[] = [];
+  for (const f of fields) {
+    const el = element(f, f === heading, style);
+    classNames.add(el.className);
+    if (guardedNames.has(f.name)) {
+      body.push(...indent(el.lines, 6));
+    } else if (el.lines.length === 1) {
+      body.push(`      {${shown(f)} && ${el.lines[0]}}`);
+    } else {
+      body.push(`      {${shown(f)} && (`, ...indent(el.lines, 8), "      )}");
+    }
+  }
+
+  const imports: string[] = [];
+  if (fields.some((f) => f.kind === "media")) {
+    imports.push('import Image from "next/image";');
+  }
+  if (fields.some((f) => f.kind === "link")) {
+    imports.push('import { CmssyLink } from "@cmssy/next/client";');
+  }
+
+  const names = fields.map((f) => f.name);
+  const oneLine = `  const { ${names.join(", ")} } = content;`;
+  const destructure =
+    oneLine.length <= 80
+      ? oneLine
+      : ["  const {", ...names.map((n) => `    ${n},`), "  } = content;"].join(
+          "\n",
+        );
+
+  return {
+    props: fields.flatMap(propLines).join("\n"),
+    contentType: fields.map(contentTypeLine).join("\n"),
+    destructure,
+    guard: `  if (${guarded.map((f) => `!${presence(f)}`).join(" || ")}) return null;`,
+    imports: imports.map((l) => `${l}\n`).join(""),
+    body: body.join("\n"),
+    styles: Object.keys(CLASS_RULES)
+      .filter((c) => classNames.has(c))
+      .map((c) => CLASS_RULES[c]!)
+      .join("\n\n"),
+  };
+}
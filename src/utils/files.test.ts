@@ -1,8 +1,17 @@
-import { mkdtemp } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { mkdtemp, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
-import { writeFileSafe } from "./files.js";
+import {
+  endDryRun,
+  movePath,
+  pathExists,
+  plannedChanges,
+  removeFile,
+  startDryRun,
+  writeFileSafe,
+} from "./files.js";
 
 async function tmpFile(): Promise<string> {
   const dir = await mkdtemp(join(tmpdir(), "cmssy-files-"));
@@ -28,3 +37,62 @@ describe("writeFileSafe", () => {
     expect(await writeFileSafe(f, "b", { force: true })).toBe("written");
   });
 });
+
+describe("dry run", () => {
+  it("records writes instead of touching disk", async () => {
+    const f = await tmpFile();
+    startDryRun();
+    try {
+      expect(await writeFileSafe(f, "a")).toBe("written");
+      expect(existsSync(f)).toBe(false);
+      expect(pathExists(f)).toBe(true);
+      expect(await writeFileSafe(f, "a")).toBe("unchanged");
+      expect(plannedChanges()).toEqual([{ path: f, before: null, after: "a" }]);
+    } finally {
+      endDryRun();
+    }
+    expect(pathExists(f)).toBe(false);
+  });
+});
+
+describe("movePath", () => {
+  it("plans a move as a removal plus a new file during a dry run", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-files-"));
+    await writeFile(join(dir, "a.txt"), "x");
+    startDryRun();
+    try {
+      await movePath(join(dir, "a.txt"), join(dir, "b.txt"));
+      expect(pathExists(join(dir, "a.txt"))).toBe(false);
+      expect(pathExists(join(dir, "b.txt"))).toBe(true);
+      expect(plannedChanges()).toEqual([
+        { path: join(dir, "b.txt"), before: null, after: "x" },
+        { path: join(dir, "a.txt"), before: "x", after: null },
+      ]);
+    } finally {
+      endDryRun();
+    }
+    expect(existsSync(join(dir, "a.txt"))).toBe(true);
+  });
+});
+
+describe("removeFile", () => {
+  it("deletes a file and the folders it leaves empty", async () => {
+    const f = await tmpFile();
+    const root = join(f, "..", "..");
+    await writeFileSafe(f, "a");
+    await removeFile(f, root);
+    expect(existsSync(join(root, "nested"))).toBe(false);
+    expect(existsSync(root)).toBe(true);
+  });
+
+  it("only records the removal in a dry run", async () => {
+    const f = await tmpFile();
+    await writeFileSafe(f, "a");
+    startDryRun();
+    await removeFile(f);
+    expect(pathExists(f)).toBe(false);
+    expect(plannedChanges()).toEqual([{ path: f, before: "a", after: null }]);
+    endDryRun();
+    expect(existsSync(f)).toBe(true);
+  });
+});
@@ -1,9 +1,130 @@
-import { existsSync } from "node:fs";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { dirname } from "node:path";
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  rmdir,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+
+/**
+ * Pending writes while a dry run is active (absolute path -> new content, or
+ * null once moved or removed). Every project write goes through writeText(),
+ * movePath() or removeFile(), so commands can run their normal logic against
+ * this layer and report a plan instead of touching disk.
+ */
+let pending: Map<string, string | null> | null = null;
+
+export function startDryRun(): void {
+  pending = new Map();
+}
+
+export function isDryRun(): boolean {
+  return pending !== null;
+}
+
+export interface PlannedChange {
+  path: string;
+  /** null for a new file */
+  before: string | null;
+  /** null for a removed file */
+  after: string | null;
+}
+
+/** What a dry run would have written, in write order, minus no-op writes. */
+export function plannedChanges(): PlannedChange[] {
+  if (!pending) return [];
+  const out: PlannedChange[] = [];
+  for (const [path, after] of pending) {
+    const before = existsSync(path) ? readFileSync(path, "utf8") : null;
+    if (before !== after) out.push({ path, before, after });
+  }
+  return out;
+}
+
+/** Leave dry-run mode, dropping anything still pending. */
+export function endDryRun(): void {
+  pending = null;
+}
 
 export function pathExists(p: string): boolean {
-  return existsSync(p);
+  const planned = pending?.get(resolve(p));
+  return planned === undefined ? existsSync(p) : planned !== null;
+}
+
+function plannedText(p: string): string | undefined {
+  const planned = pending?.get(resolve(p));
+  if (planned === null) {
+    throw Object.assign(new Error(`ENOENT: no such file, open '${p}'`), {
+      code: "ENOENT",
+    });
+  }
+  return planned;
+}
+
+export function readTextSync(p: string): string {
+  return plannedText(p) ?? readFileSync(p, "utf8");
+}
+
+export async function readText(p: string): Promise<string> {
+  return plannedText(p) ?? readFile(p, "utf8");
+}
+
+/** Write a project file (creating parent dirs), or record it during a dry run. */
+export async function writeText(p: string, content: string): Promise<void> {
+  if (pending) {
+    pending.set(resolve(p), content);
+    return;
+  }
+  await ensureDir(dirname(p));
+  await writeFile(p, content, "utf8");
+}
+
+function filesUnder(dir: string): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    const p = join(dir, entry);
+    return statSync(p).isDirectory() ? filesUnder(p) : [p];
+  });
+}
+
+/** Move a file or directory (creating parent dirs), or record it during a dry run. */
+export async function movePath(from: string, to: string): Promise<void> {
+  if (!pending) {
+    await ensureDir(dirname(to));
+    await rename(from, to);
+    return;
+  }
+  const files = statSync(from).isDirectory() ? filesUnder(from) : [from];
+  for (const file of files) {
+    const content = await readText(file);
+    pending.set(resolve(to, relative(from, file)), content);
+    pending.set(resolve(file), null);
+  }
+}
+
+/**
+ * Delete a file, then any parent folders it leaves empty up to (not
+ * including) `root`; or record the deletion during a dry run.
+ */
+export async function removeFile(p: string, root?: string): Promise<void> {
+  if (pending) {
+    pending.set(resolve(p), null);
+    return;
+  }
+  await rm(p, { force: true });
+  if (!root) return;
+  for (
+    let dir = dirname(resolve(p));
+    dir !== resolve(root) && !relative(resolve(root), dir).startsWith("..");
+    dir = dirname(dir)
+  ) {
+    if (!existsSync(dir)) continue;
+    if ((await readdir(dir)).length) break;
+    await rmdir(dir);
+  }
 }
 
 export async function ensureDir(dir: string): Promise<void> {
@@ -23,11 +144,10 @@ export async function writeFileSafe(
   opts: { force?: boolean } = {},
 ): Promise<WriteResult> {
   if (pathExists(dest)) {
-    const current = await readFile(dest, "utf8");
+    const current = await readText(dest);
     if (current === content) return "unchanged";
     if (!opts.force) return "skipped";
   }
-  await ensureDir(dirname(dest));
-  await writeFile(dest, content, "utf8");
+  await writeText(dest, content);
   return "written";
 }
@@ -0,0 +1,44 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { project } from "../test/project.js";
+import { findBlockImporters, importSpecifiers } from "./imports.js";
+
+describe("importSpecifiers", () => {
+  it("finds static, dynamic and side-effect imports", () => {
+    const src = `import a from "./a";\nimport "./side.css";\nconst b = await import("@/b");\nexport { c } from '../c';\n`;
+    expect(importSpecifiers(src)).toEqual(["./a", "./side.css", "@/b", "../c"]);
+  });
+});
+
+describe("findBlockImporters", () => {
+  it("reports aliased and relative imports outside the block folder", async () => {
+    const dir = await project({
+      "blocks/pricing/block.ts": 'import Pricing from "./Pricing";\n',
+      "blocks/other/block.ts": 'import { x } from "../pricing/util";\n',
+      "app/page.tsx":
+        'import { pricingBlock } from "@/blocks/pricing/block";\n',
+      "cmssy/blocks.ts":
+        'import { pricingBlock } from "@/blocks/pricing/block";\n',
+      "node_modules/pkg/index.js": 'require("@/blocks/pricing/block");\n',
+    });
+    const found = findBlockImporters(
+      dir,
+      join(dir, "blocks", "pricing"),
+      "pricing",
+      [join(dir, "cmssy", "blocks.ts")],
+    );
+    expect(found.map((f) => f.file).sort()).toEqual([
+      "app/page.tsx",
+      "blocks/other/block.ts",
+    ]);
+  });
+
+  it("does not confuse blocks sharing a prefix", async () => {
+    const dir = await project({
+      "app/page.tsx": 'import { x } from "@/blocks/pricing-table/block";\n',
+    });
+    expect(
+      findBlockImporters(dir, join(dir, "blocks", "pricing"), "pricing"),
+    ).toEqual([]);
+  });
+});
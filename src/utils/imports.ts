@@ -0,0 +1,79 @@
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+
+const SOURCE_EXT = /\.(?:[cm]?[jt]sx?|mdx)$/;
+const SKIP_DIRS = new Set([
+  "node_modules",
+  ".git",
+  ".next",
+  ".turbo",
+  "dist",
+  "build",
+  "out",
+  "coverage",
+]);
+const SPECIFIER =
+  /(?:\bfrom\s*|\bimport\s*\(\s*|\brequire\s*\(\s*|^\s*import\s+)["']([^"']+)["']/gm;
+
+/** Every JS/TS source file under `root`, skipping build output and deps. */
+export function listSourceFiles(root: string): string[] {
+  const out: string[] = [];
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir)) {
+      if (SKIP_DIRS.has(entry)) continue;
+      const abs = join(dir, entry);
+      if (statSync(abs).isDirectory()) walk(abs);
+      else if (SOURCE_EXT.test(entry)) out.push(abs);
+    }
+  };
+  walk(root);
+  return out;
+}
+
+export function importSpecifiers(source: string): string[] {
+  return [...source.matchAll(SPECIFIER)].map((m) => m[1]!);
+}
+
+function isInside(child: string, parent: string): boolean {
+  const rel = relative(parent, child);
+  return rel === "" || (!rel.startsWith("..") && !rel.startsWith(sep));
+}
+
+export interface Importer {
+  /** project-relative, POSIX-style */
+  file: string;
+  specifier: string;
+}
+
+/**
+ * Find source files outside `blockDir` that import anything from it, either
+ * relatively or through an alias ending in `blocks/<type>`. Files listed in
+ * `ignore` (e.g. the registry) are not reported.
+ */
+export function findBlockImporters(
+  root: string,
+  blockDir: string,
+  type: string,
+  ignore: string[] = [],
+): Importer[] {
+  const aliased = new RegExp(`(?:^|/)blocks/${type}(?:/|$)`);
+  const ignored = new Set(ignore.map((f) => resolve(f)));
+  const found: Importer[] = [];
+
+  for (const file of listSourceFiles(root)) {
+    if (ignored.has(resolve(file)) || isInside(file, blockDir)) continue;
+    for (const specifier of importSpecifiers(readFileSync(file, "utf8"))) {
+      const hit = specifier.startsWith(".")
+        ? isInside(resolve(dirname(file), specifier), blockDir)
+        : aliased.test(specifier);
+      if (hit) {
+        found.push({
+          file: relative(root, file).split(sep).join("/"),
+          specifier,
+        });
+        break;
+      }
+    }
+  }
+  return found;
+}
@@ -0,0 +1,123 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { project } from "../test/project.js";
+import { installedPackage, lockfileVersion } from "./installed.js";
+
+const LOCKFILES: Record<string, string> = {
+  "package-lock.json": JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      "": { dependencies: { "@cmssy/next": "^0.5.6" } },
+      "node_modules/@cmssy/next": { version: "0.5.8" },
+    },
+  }),
+  "pnpm-lock.yaml": `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      '@cmssy/next':
+        specifier: ^0.5.6
+        version: 0.5.8(next@15.1.0)(react@19.0.0)
+      next:
+        specifier: 15.1.0
+        version: 15.1.0(react@19.0.0)
+
+packages:
+
+  '@cmssy/next@0.5.8':
+    resolution: {integrity: sha512-x}
+`,
+  "yarn.lock": `# yarn lockfile v1
+
+
+"@cmssy/next@^0.5.6":
+  version "0.5.8"
+  resolved "https://registry.yarnpkg.com/@cmssy/next/-/next-0.5.8.tgz"
+
+next@15.1.0:
+  version "15.1.0"
+`,
+  "bun.lock": `{
+  "lockfileVersion": 1,
+  "packages": {
+    "@cmssy/next": ["@cmssy/next@0.5.8", "", {}, "sha512-x"],
+  }
+}
+`,
+};
+
+describe("lockfileVersion", () => {
+  for (const [file, content] of Object.entries(LOCKFILES)) {
+    it(`reads the resolved version from ${file}`, async () => {
+      const dir = await project({ [file]: content });
+      expect(lockfileVersion(dir, "@cmssy/next")).toEqual({
+        file,
+        version: "0.5.8",
+      });
+      expect(lockfileVersion(dir, "@cmssy/react")).toBeNull();
+    });
+  }
+
+  it("reads yarn berry entries", async () => {
+    const dir = await project({
+      "yarn.lock": `__metadata:
+  version: 8
+
+"@cmssy/next@npm:^0.5.6":
+  version: 0.5.8
+  resolution: "@cmssy/next@npm:0.5.8"
+`,
+    });
+    expect(lockfileVersion(dir, "@cmssy/next")?.version).toBe("0.5.8");
+  });
+});
+
+describe("installedPackage", () => {
+  it("reports node_modules and the lockfile separately", async () => {
+    const dir = await project({
+      "pnpm-lock.yaml": LOCKFILES["pnpm-lock.yaml"]!,
+      "node_modules/@cmssy/next/package.json": '{ "version": "0.5.7" }',
+    });
+    expect(installedPackage(dir, "@cmssy/next")).toEqual({
+      name: "@cmssy/next",
+      nodeModules: "0.5.7",
+      lockfile: { file: "pnpm-lock.yaml", version: "0.5.8" },
+    });
+    expect(installedPackage(dir, "@cmssy/react")).toEqual({
+      name: "@cmssy/react",
+      nodeModules: null,
+      lockfile: null,
+    });
+  });
+
+  it("reads a workspace package from the root's lockfile and node_modules", async () => {
+    const dir = await project({
+      "pnpm-workspace.yaml": "packages:\n  - apps/*\n",
+      "apps/web/package.json": '{ "name": "web" }',
+      "pnpm-lock.yaml": `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      '@cmssy/next':
+        specifier: ^0.4.0
+        version: 0.4.2
+
+  apps/web:
+    dependencies:
+      '@cmssy/next':
+        specifier: ^0.5.6
+        version: 0.5.8(next@15.1.0)
+`,
+      "node_modules/@cmssy/next/package.json": '{ "version": "0.5.8" }',
+    });
+    expect(installedPackage(join(dir, "apps", "web"), "@cmssy/next")).toEqual({
+      name: "@cmssy/next",
+      nodeModules: "0.5.8",
+      lockfile: { file: "../../pnpm-lock.yaml", version: "0.5.8" },
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { findWorkspace, workspacePath } from "./workspace.js";
+
+/**
+ * What a project actually has installed, as opposed to the ranges its
+ * package.json declares: the version in node_modules, and the version the
+ * lockfile resolved.
+ */
+export interface InstalledPackage {
+  name: string;
+  /** version in node_modules/<name>/package.json */
+  nodeModules: string | null;
+  /** version the lockfile resolved, and which lockfile said so */
+  lockfile: { file: string; version: string } | null;
+}
+
+function escape(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Each reader gets the project's path from the lockfile's directory ("."
+ * when they're the same) for lockfiles that record workspace packages
+ * separately.
+ */
+type LockfileReader = (
+  content: string,
+  name: string,
+  project: string,
+) => string | null;
+
+function fromPackageLock(
+  content: string,
+  name: string,
+  project: string,
+): string | null {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, { version?: string }>;
+    dependencies?: Record<string, { version?: string }>;
+  };
+  // npm nests a workspace's copy under its folder when it can't hoist it.
+  const nested =
+    project === "."
+      ? undefined
+      : lock.packages?.[`${project}/node_modules/${name}`]?.version;
+  return (
+    nested ??
+    lock.packages?.[`node_modules/${name}`]?.version ??
+    lock.dependencies?.[name]?.version ??
+    null
+  );
+}
+
+/** The `importers:` entry for one workspace package, or null. */
+function pnpmImporter(content: string, project: string): string | null {
+  const start = new RegExp(`^  '?${escape(project)}'?:\\n`, "m").exec(content);
+  if (!start) return null;
+  const body = content.slice(start.index + start[0].length);
+  const end = /^ {0,2}\S/m.exec(body);
+  return end ? body.slice(0, end.index) : body;
+}
+
+function fromPnpmLock(
+  content: string,
+  name: string,
+  project: string,
+): string | null {
+  if (project !== ".") {
+    const importer = pnpmImporter(content, project);
+    if (importer !== null) content = importer;
+  }
+  const key = `'?${escape(name)}'?`;
+  // v6+: importers / top-level `name:\n  specifier: ..\n  version: 1.2.3(peer@x)`
+  const importer = new RegExp(
+    `^\\s+${key}:\\n\\s+specifier: .*\\n\\s+version: (\\d[^\\s(]*)`,
+    "m",
+  ).exec(content);
+  if (importer) return importer[1]!;
+  // v5: `dependencies:\n  name: 1.2.3`
+  const flat = new RegExp(`^\\s+${key}: (\\d[^\\s(_]*)`, "m").exec(content);
+  if (flat) return flat[1]!;
+  // packages section: `/name@1.2.3:`, `name@1.2.3:` or `/name/1.2.3:`
+  const pkg = new RegExp(
+    `^\\s+'?/?${escape(name)}[@/](\\d[^:('\\s_]*)`,
+    "m",
+  ).exec(content);
+  return pkg?.[1] ?? null;
+}
+
+function fromYarnLock(content: string, name: string): string | null {
+  // classic: `"name@^1.0.0":\n  version "1.2.3"`; berry: `version: 1.2.3`
+  const m = new RegExp(
+    `^"?${escape(name)}@[^\\n]*:\\n(?:[ \\t]+[^\\n]*\\n)*?[ \\t]+version:? "?([^"\\s]+)"?`,
+    "m",
+  ).exec(content);
+  return m?.[1] ?? null;
+}
+
+function fromBunLock(content: string, name: string): string | null {
+  // bun.lock is JSONC: `"name": ["name@1.2.3", ...]`
+  const m = new RegExp(`"${escape(name)}": \\["${escape(name)}@([^"]+)"`).exec(
+    content,
+  );
+  return m?.[1] ?? null;
+}
+
+/** Text lockfiles, in the order detectPackageManager prefers them. */
+const LOCKFILES: Array<[string, LockfileReader]> = [
+  ["pnpm-lock.yaml", fromPnpmLock],
+  ["yarn.lock", fromYarnLock],
+  ["bun.lock", fromBunLock],
+  ["package-lock.json", fromPackageLock],
+];
+
+/**
+ * The version a lockfile resolved for `name`: the project's own lockfile,
+ * else its workspace root's (`file` is then relative to the project, like
+ * `../../pnpm-lock.yaml`). bun.lockb is binary and isn't read; node_modules
+ * is the only source there.
+ */
+export function lockfileVersion(
+  projectDir: string,
+  name: string,
+): { file: string; version: string } | null {
+  const ws = findWorkspace(projectDir);
+  const dirs = [projectDir];
+  if (ws && ws.root !== resolve(projectDir)) dirs.push(ws.root);
+  for (const dir of dirs) {
+    const project = dir === projectDir ? "." : workspacePath(ws!, projectDir);
+    for (const [file, read] of LOCKFILES) {
+      const path = join(dir, file);
+      if (!existsSync(path)) continue;
+      try {
+        const version = read(readFileSync(path, "utf8"), name, project);
+        return version
+          ? { file: relative(projectDir, path).split(sep).join("/"), version }
+          : null;
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The copy Node would resolve from the project: its own node_modules, then
+ * each parent's up to the workspace root, where hoisted packages live.
+ */
+function nodeModulesVersion(projectDir: string, name: string): string | null {
+  const ws = findWorkspace(projectDir);
+  let dir = resolve(projectDir);
+  for (;;) {
+    const manifest = readJson(
+      join(dir, "node_modules", name, "package.json"),
+    ) as { version?: string } | null;
+    if (manifest?.version) return manifest.version;
+    if (!ws || dir === ws.root || dirname(dir) === dir) return null;
+    dir = dirname(dir);
+  }
+}
+
+export function installedPackage(
+  projectDir: string,
+  name: string,
+): InstalledPackage {
+  return {
+    name,
+    nodeModules: nodeModulesVersion(projectDir, name),
+    lockfile: lockfileVersion(projectDir, name),
+  };
+}
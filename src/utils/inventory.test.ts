@@ -0,0 +1,77 @@
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { inventoryBlocks, parseBlockDefinitions } from "./inventory.js";
+
+const HERO = `import { defineBlock, fields } from "@cmssy/react";
+import Hero from "./Hero";
+
+export const heroBlock = defineBlock({
+  type: "hero",
+  label: "Hero",
+  component: Hero,
+  props: {
+    heading: fields.singleLine({ label: "Heading", required: true }),
+    "cta-url": fields.link({ label: "CTA" }),
+    items: customField,
+  },
+});
+`;
+
+describe("parseBlockDefinitions", () => {
+  it("reads type, label, component and field kinds", () => {
+    expect(parseBlockDefinitions(HERO)).toEqual([
+      {
+        exportName: "heroBlock",
+        type: "hero",
+        label: "Hero",
+        component: "Hero",
+        line: 4,
+        fields: [
+          { name: "heading", kind: "singleLine", required: true },
+          { name: "cta-url", kind: "link", required: false },
+          { name: "items", kind: "customField", required: false },
+        ],
+      },
+    ]);
+  });
+
+  it("ignores exports that are not defineBlock calls", () => {
+    expect(
+      parseBlockDefinitions("export const x = make({ type: 'a' });"),
+    ).toEqual([]);
+  });
+});
+
+describe("inventoryBlocks", () => {
+  it("resolves registered blocks and flags unregistered folders", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-inv-"));
+    await mkdir(join(dir, "cmssy"));
+    await mkdir(join(dir, "blocks", "hero"), { recursive: true });
+    await mkdir(join(dir, "blocks", "stray"), { recursive: true });
+    await writeFile(join(dir, "blocks", "hero", "block.ts"), HERO);
+    await writeFile(join(dir, "blocks", "stray", "block.ts"), HERO);
+    await writeFile(
+      join(dir, "cmssy", "blocks.ts"),
+      'import { heroBlock } from "@/blocks/hero/block";\nimport { goneBlock } from "../blocks/gone/block";\n\nexport const blocks = [heroBlock, goneBlock];\n',
+    );
+
+    const inv = inventoryBlocks(
+      join(dir, "blocks"),
+      join(dir, "cmssy", "blocks.ts"),
+      {
+        configFile: null,
+        aliases: [],
+        baseUrl: null,
+      },
+    );
+    expect(inv.blocks.map((b) => [b.exportName, b.folder])).toEqual([
+      ["heroBlock", "hero"],
+      ["goneBlock", null],
+    ]);
+    expect(inv.blocks[0]!.definition?.type).toBe("hero");
+    expect(inv.blocks[1]!.definition).toBeNull();
+    expect(inv.unregistered).toEqual(["stray"]);
+  });
+});
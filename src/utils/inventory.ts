@@ -0,0 +1,206 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { isAbsolute, join, relative, sep } from "node:path";
+import ts from "typescript";
+import {
+  calleeName,
+  lineOf,
+  parseSource,
+  propertyName,
+  propertyValue,
+  stringValue,
+  unwrapExpression,
+} from "./ast.js";
+import { readRegistry } from "./registry.js";
+import { resolveImport, type ImportConfig } from "./tsconfig.js";
+
+export interface FieldInfo {
+  name: string;
+  /** `singleLine` for `fields.singleLine(...)`; the raw expression otherwise */
+  kind: string;
+  required: boolean;
+}
+
+export interface BlockDefinition {
+  exportName: string;
+  type: string | null;
+  label: string | null;
+  /** identifier passed as `component` */
+  component: string | null;
+  fields: FieldInfo[];
+  line: number;
+}
+
+export interface BlockEntry {
+  exportName: string;
+  specifier: string | null;
+  /** folder name under blocks/, when the import resolves there */
+  folder: string | null;
+  /** resolved block module, absolute */
+  file: string | null;
+  definition: BlockDefinition | null;
+}
+
+export interface BlockInventory {
+  blocks: BlockEntry[];
+  /** folders under blocks/ with a block module that the registry never imports */
+  unregistered: string[];
+}
+
+const MODULE_SUFFIXES = [
+  "",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  "/index.ts",
+  "/index.tsx",
+];
+
+function fieldInfo(
+  name: string,
+  value: ts.Expression,
+  sf: ts.SourceFile,
+): FieldInfo {
+  const expr = unwrapExpression(value);
+  let kind = expr.getText(sf);
+  let required = false;
+  if (ts.isCallExpression(expr)) {
+    kind = calleeName(expr) ?? kind;
+    const opts = expr.arguments[0] && unwrapExpression(expr.arguments[0]);
+    if (opts && ts.isObjectLiteralExpression(opts)) {
+      required =
+        propertyValue(opts, "required")?.kind === ts.SyntaxKind.TrueKeyword;
+    }
+  }
+  return { name, kind, required };
+}
+
+/** Every `const x = defineBlock({...})` in a module, in source order. */
+export function parseBlockDefinitions(
+  source: string,
+  fileName = "block.ts",
+): BlockDefinition[] {
+  const sf = parseSource(fileName, source);
+  const out: BlockDefinition[] = [];
+
+  for (const stmt of sf.statements) {
+    if (!ts.isVariableStatement(stmt)) continue;
+    for (const decl of stmt.declarationList.declarations) {
+      if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+      const init = unwrapExpression(decl.initializer);
+      if (!ts.isCallExpression(init) || calleeName(init) !== "defineBlock") {
+        continue;
+      }
+      const arg = init.arguments[0] && unwrapExpression(init.arguments[0]);
+      const def: BlockDefinition = {
+        exportName: decl.name.text,
+        type: null,
+        label: null,
+        component: null,
+        fields: [],
+        line: lineOf(sf, decl),
+      };
+      if (arg && ts.isObjectLiteralExpression(arg)) {
+        def.type = stringValue(propertyValue(arg, "type"));
+        def.label = stringValue(propertyValue(arg, "label"));
+        const component = propertyValue(arg, "component");
+        def.component =
+          component && ts.isIdentifier(component) ? component.text : null;
+        const props = propertyValue(arg, "props");
+        if (props && ts.isObjectLiteralExpression(props)) {
+          for (const p of props.properties) {
+            const name = p.name ? propertyName(p.name) : null;
+            if (name && ts.isPropertyAssignment(p)) {
+              def.fields.push(fieldInfo(name, p.initializer, sf));
+            }
+          }
+        }
+      }
+      out.push(def);
+    }
+  }
+  return out;
+}
+
+/**
+ * Resolve a registry import specifier to a module file on disk: through the
+ * project's tsconfig first, then by the `.../blocks/<name>/...` convention
+ * (`<name>` under `blocksDir`).
+ */
+export function resolveBlockModule(
+  specifier: string,
+  registryFile: string,
+  blocksDir: string,
+  imports: ImportConfig,
+): string | null {
+  const resolved = resolveImport(specifier, registryFile, imports);
+  if (resolved || specifier.startsWith(".")) return resolved;
+  const m = /(?:^|\/)blocks\/(.+)$/.exec(specifier);
+  if (!m) return null;
+  const target = join(blocksDir, m[1]!);
+  for (const suffix of MODULE_SUFFIXES) {
+    const candidate = target + suffix;
+    if (existsSync(candidate) && statSync(candidate).isFile()) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function folderOf(file: string, blocksDir: string): string | null {
+  const rel = relative(blocksDir, file);
+  if (rel.startsWith("..") || isAbsolute(rel)) return null;
+  const parts = rel.split(sep);
+  return parts.length > 1 ? parts[0]! : null;
+}
+
+function hasBlockModule(dir: string): boolean {
+  return ["block.ts", "block.tsx", "block.js", "block.jsx"].some((f) =>
+    existsSync(join(dir, f)),
+  );
+}
+
+/**
+ * Read a project's registry and each registered block's definition. Throws a
+ * RegistryError when the registry's shape can't be read.
+ */
+export function inventoryBlocks(
+  blocksDir: string,
+  registryFile: string,
+  imports: ImportConfig,
+): BlockInventory {
+  const registry = readRegistry(registryFile);
+  const byLocal = new Map(registry.imports.map((i) => [i.local, i]));
+
+  const blocks: BlockEntry[] = registry.entries.map((entry) => {
+    const imp = entry.spread ? undefined : byLocal.get(entry.name);
+    const file = imp
+      ? resolveBlockModule(imp.specifier, registry.file, blocksDir, imports)
+      : null;
+    const definition = file
+      ? (parseBlockDefinitions(readFileSync(file, "utf8"), file).find(
+          (d) => d.exportName === imp!.imported,
+        ) ?? null)
+      : null;
+    return {
+      exportName: entry.spread ? `...${entry.name}` : entry.name,
+      specifier: imp?.specifier ?? null,
+      folder: file ? folderOf(file, blocksDir) : null,
+      file,
+      definition,
+    };
+  });
+
+  const registered = new Set(blocks.map((b) => b.folder).filter(Boolean));
+  const unregistered = existsSync(blocksDir)
+    ? readdirSync(blocksDir)
+        .filter((name) => statSync(join(blocksDir, name)).isDirectory())
+        .filter(
+          (name) =>
+            !registered.has(name) && hasBlockModule(join(blocksDir, name)),
+        )
+        .sort()
+    : [];
+
+  return { blocks, unregistered };
+}
@@ -0,0 +1,133 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { addBlockCommand } from "../commands/add-block.js";
+import { writeFileSafe } from "./files.js";
+import {
+  editGenerated,
+  forgetGenerated,
+  hashContent,
+  manifestStatus,
+  moveGenerated,
+  readManifest,
+  recordGenerated,
+} from "./manifest.js";
+import { endJson, startJson } from "./output.js";
+import { readTemplate } from "./templates.js";
+import { getVersion } from "./ui.js";
+
+async function project(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "cmssy-manifest-"));
+  await writeFileSafe(join(dir, "cmssy", "a.ts"), "a");
+  await writeFileSafe(join(dir, "cmssy", "b.ts"), "b");
+  await recordGenerated(dir, [
+    { path: join(dir, "cmssy", "a.ts"), template: "init/a.ts", content: "a" },
+    { path: join(dir, "cmssy", "b.ts"), template: "init/b.ts", content: "b" },
+  ]);
+  return dir;
+}
+
+describe("manifest", () => {
+  it("records generated files by relative path", async () => {
+    const dir = await project();
+    expect(readManifest(dir)?.files["cmssy/a.ts"]).toEqual({
+      template: "init/a.ts",
+      templateVersion: getVersion(),
+      hash: hashContent("a"),
+    });
+  });
+
+  it("is null when missing or unreadable", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-manifest-"));
+    expect(readManifest(dir)).toBeNull();
+    await writeFileSafe(join(dir, ".cmssy", "manifest.json"), "{");
+    expect(readManifest(dir)).toBeNull();
+  });
+
+  it("tells pristine, modified and deleted files apart", async () => {
+    const dir = await project();
+    await writeFile(join(dir, "cmssy", "a.ts"), "edited");
+    await rm(join(dir, "cmssy", "b.ts"));
+    expect(manifestStatus(dir).map((s) => [s.path, s.state])).toEqual([
+      ["cmssy/a.ts", "modified"],
+      ["cmssy/b.ts", "deleted"],
+    ]);
+  });
+
+  it("forgets files and whole directories", async () => {
+    const dir = await project();
+    await forgetGenerated(dir, [join(dir, "cmssy")]);
+    expect(readManifest(dir)?.files).toEqual({});
+  });
+
+  it("moves entries, keeping edited files modified", async () => {
+    const dir = await project();
+    await writeFile(join(dir, "cmssy", "b.ts"), "edited");
+    await moveGenerated(dir, [
+      {
+        from: join(dir, "cmssy", "a.ts"),
+        to: join(dir, "x", "a.ts"),
+        content: "A",
+      },
+      {
+        from: join(dir, "cmssy", "b.ts"),
+        to: join(dir, "x", "b.ts"),
+        content: "edited",
+      },
+    ]);
+    await writeFileSafe(join(dir, "x", "a.ts"), "A");
+    await writeFileSafe(join(dir, "x", "b.ts"), "edited");
+    expect(manifestStatus(dir).map((s) => [s.path, s.state])).toEqual([
+      ["x/a.ts", "pristine"],
+      ["x/b.ts", "modified"],
+    ]);
+  });
+
+  it("re-hashes pristine files the CLI edits, not edited ones", async () => {
+    const dir = await project();
+    await writeFile(join(dir, "cmssy", "b.ts"), "edited");
+    await editGenerated(
+      dir,
+      [join(dir, "cmssy", "a.ts"), join(dir, "cmssy", "b.ts")],
+      async () => {
+        await writeFile(join(dir, "cmssy", "a.ts"), "a2");
+        await writeFile(join(dir, "cmssy", "b.ts"), "edited2");
+      },
+    );
+    expect(manifestStatus(dir).map((s) => [s.path, s.state])).toEqual([
+      ["cmssy/a.ts", "pristine"],
+      ["cmssy/b.ts", "modified"],
+    ]);
+  });
+
+  it("keeps the registry pristine after add block registers in it", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-manifest-"));
+    const registry = readTemplate("init", "cmssy/blocks.ts");
+    await writeFileSafe(join(dir, "package.json"), "{}");
+    await writeFileSafe(join(dir, "cmssy", "blocks.ts"), registry);
+    await recordGenerated(dir, [
+      {
+        path: join(dir, "cmssy", "blocks.ts"),
+        template: "init/cmssy/blocks.ts",
+        content: registry,
+      },
+    ]);
+
+    const cwd = process.cwd();
+    process.chdir(dir);
+    startJson();
+    try {
+      await addBlockCommand({ positionals: ["pricing"], flags: {} });
+    } finally {
+      endJson();
+      process.chdir(cwd);
+    }
+    expect(
+      manifestStatus(dir).find((s) => s.path === "cmssy/blocks.ts"),
+    ).toMatchObject({ state: "pristine" });
+    expect(
+      manifestStatus(dir).filter((s) => s.path.startsWith("blocks/pricing/")),
+    ).toHaveLength(3);
+  });
+});
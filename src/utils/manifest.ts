@@ -0,0 +1,197 @@
+import { createHash } from "node:crypto";
+import { join, relative, sep } from "node:path";
+import { pathExists, readTextSync, writeText } from "./files.js";
+import { getVersion } from "./ui.js";
+
+/** Where a project records the files cmssy generated, relative to its root. */
+export const MANIFEST_FILE = ".cmssy/manifest.json";
+
+export interface ManifestEntry {
+  /** template the file came from, e.g. `init/proxy.ts` or `block/block.ts.tpl` */
+  template: string;
+  /** CLI version whose templates wrote the file */
+  templateVersion: string;
+  /** `sha256-<hex>` of the content as written */
+  hash: string;
+}
+
+export interface Manifest {
+  version: 1;
+  /** keyed by project-relative POSIX path */
+  files: Record<string, ManifestEntry>;
+}
+
+export interface GeneratedFile {
+  /** absolute */
+  path: string;
+  template: string;
+  content: string;
+}
+
+/** pristine: as generated; modified: edited since; deleted: no longer there. */
+export type FileState = "pristine" | "modified" | "deleted";
+
+export interface ManifestStatus {
+  path: string;
+  entry: ManifestEntry;
+  state: FileState;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return `sha256-${createHash("sha256").update(content).digest("hex")}`;
+}
+
+/** A file's key in the manifest: its project-relative POSIX path. */
+export function manifestKey(projectDir: string, file: string): string {
+  return relative(projectDir, file).split(sep).join("/");
+}
+
+/** The project's manifest, or null when there is none (or it can't be parsed). */
+export function readManifest(projectDir: string): Manifest | null {
+  const file = join(projectDir, MANIFEST_FILE);
+  if (!pathExists(file)) return null;
+  try {
+    const parsed = JSON.parse(readTextSync(file)) as Partial<Manifest>;
+    if (parsed.version !== 1 || typeof parsed.files !== "object") return null;
+    return { version: 1, files: parsed.files ?? {} };
+  } catch {
+    return null;
+  }
+}
+
+async function writeManifest(
+  projectDir: string,
+  manifest: Manifest,
+): Promise<void> {
+  const files = Object.fromEntries(
+    Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  await writeText(
+    join(projectDir, MANIFEST_FILE),
+    `${JSON.stringify({ version: 1, files }, null, 2)}\n`,
+  );
+}
+
+/** Record (or refresh) generated files in the manifest. */
+export async function recordGenerated(
+  projectDir: string,
+  generated: GeneratedFile[],
+): Promise<void> {
+  if (!generated.length) return;
+  const manifest = readManifest(projectDir) ?? { version: 1, files: {} };
+  const templateVersion = getVersion();
+  for (const g of generated) {
+    manifest.files[manifestKey(projectDir, g.path)] = {
+      template: g.template,
+      templateVersion,
+      hash: hashContent(g.content),
+    };
+  }
+  await writeManifest(projectDir, manifest);
+}
+
+/** Drop files (or everything under directories) from the manifest. */
+export async function forgetGenerated(
+  projectDir: string,
+  paths: string[],
+): Promise<void> {
+  const manifest = readManifest(projectDir);
+  if (!manifest) return;
+  let changed = false;
+  for (const p of paths) {
+    const key = manifestKey(projectDir, p);
+    for (const recorded of Object.keys(manifest.files)) {
+      if (recorded === key || recorded.startsWith(`${key}/`)) {
+        delete manifest.files[recorded];
+        changed = true;
+      }
+    }
+  }
+  if (changed) await writeManifest(projectDir, manifest);
+}
+
+/**
+ * Carry manifest entries over to moved files (a renamed block). A pristine
+ * file is re-hashed with its new content; a modified one keeps its old hash,
+ * so it still reads as modified.
+ */
+export async function moveGenerated(
+  projectDir: string,
+  moves: Array<{ from: string; to: string; content: string | Buffer }>,
+): Promise<void> {
+  const manifest = readManifest(projectDir);
+  if (!manifest) return;
+  let changed = false;
+  for (const m of moves) {
+    const key = manifestKey(projectDir, m.from);
+    const entry = manifest.files[key];
+    if (!entry) continue;
+    const pristine = fileState(projectDir, key, entry) === "pristine";
+    delete manifest.files[key];
+    manifest.files[manifestKey(projectDir, m.to)] = pristine
+      ? { ...entry, hash: hashContent(m.content) }
+      : entry;
+    changed = true;
+  }
+  if (changed) await writeManifest(projectDir, manifest);
+}
+
+/**
+ * Run a CLI edit of generated files (add block registering itself in
+ * cmssy/blocks.ts, say) and re-hash the ones that were pristine before it,
+ * so the CLI's own edits don't read as the user's. Edited files keep their
+ * old hash.
+ */
+export async function editGenerated<T>(
+  projectDir: string,
+  files: string[],
+  edit: () => Promise<T>,
+): Promise<T> {
+  const before = readManifest(projectDir);
+  const pristine = files
+    .map((f) => manifestKey(projectDir, f))
+    .filter((key) => {
+      const entry = before?.files[key];
+      return entry && fileState(projectDir, key, entry) === "pristine";
+    });
+  const result = await edit();
+  const manifest = readManifest(projectDir);
+  if (!manifest) return result;
+  let changed = false;
+  for (const key of pristine) {
+    const entry = manifest.files[key];
+    const file = join(projectDir, key);
+    if (!entry || !pathExists(file)) continue;
+    const hash = hashContent(readTextSync(file));
+    if (hash === entry.hash) continue;
+    manifest.files[key] = { ...entry, hash };
+    changed = true;
+  }
+  if (changed) await writeManifest(projectDir, manifest);
+  return result;
+}
+
+export function fileState(
+  projectDir: string,
+  path: string,
+  entry: ManifestEntry,
+): FileState {
+  const file = join(projectDir, path);
+  if (!pathExists(file)) return "deleted";
+  return hashContent(readTextSync(file)) === entry.hash
+    ? "pristine"
+    : "modified";
+}
+
+/** Every recorded file with its current state, in path order. */
+export function manifestStatus(projectDir: string): ManifestStatus[] {
+  const manifest = readManifest(projectDir);
+  if (!manifest) return [];
+  return Object.entries(manifest.files)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, entry]) => ({
+      path,
+      entry,
+      state: fileState(projectDir, path, entry),
+    }));
+}
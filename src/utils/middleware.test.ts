@@ -0,0 +1,264 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import {
+  composeMiddleware,
+  loadedMiddleware,
+  missingEditLogic,
+  renderMiddlewareTemplate,
+} from "./middleware.js";
+
+const AUTH_MIDDLEWARE = `import { NextResponse, type NextRequest } from "next/server";
+
+export async function middleware(request: NextRequest) {
+  if (!request.cookies.has("session")) {
+    return NextResponse.redirect(new URL("/login", request.url));
+  }
+  return NextResponse.next();
+}
+
+export const config = { matcher: ["/account/:path*"] };
+`;
+
+describe("loadedMiddleware", () => {
+  const both = { proxy: "/p/proxy.ts", middleware: "/p/middleware.ts" };
+  const none = { proxy: null, middleware: null };
+
+  it("prefers proxy.ts from Next 16 on, falling back to middleware.ts", () => {
+    expect(loadedMiddleware(both, 16)).toEqual({
+      kind: "proxy",
+      file: "/p/proxy.ts",
+    });
+    expect(
+      loadedMiddleware({ proxy: null, middleware: "/p/middleware.ts" }, 16),
+    ).toEqual({ kind: "middleware", file: "/p/middleware.ts" });
+    expect(loadedMiddleware(none, null)).toEqual({ kind: "proxy", file: null });
+  });
+
+  it("only loads middleware.ts before Next 16", () => {
+    expect(
+      loadedMiddleware({ proxy: "/p/proxy.ts", middleware: null }, 15),
+    ).toEqual({ kind: "middleware", file: null });
+    expect(loadedMiddleware(both, 15).file).toBe("/p/middleware.ts");
+  });
+});
+
+describe("renderMiddlewareTemplate", () => {
+  it("renames the exported handler for middleware.ts", () => {
+    const tpl = "export function proxy(request: NextRequest) {}\n";
+    expect(renderMiddlewareTemplate(tpl, "middleware")).toBe(
+      "export function middleware(request: NextRequest) {}\n",
+    );
+    expect(renderMiddlewareTemplate(tpl, "proxy")).toBe(tpl);
+  });
+});
+
+describe("composeMiddleware", () => {
+  it("wraps an exported handler and adds the imports it needs", () => {
+    const out = composeMiddleware(
+      AUTH_MIDDLEWARE,
+      "/p/middleware.ts",
+      "@/cmssy.config",
+    )!;
+    expect(out).toContain(
+      'import { NextResponse, NextRequest } from "next/server";',
+    );
+    expect(out).toContain(
+      'import { applyCmssyCsp, CMSSY_EDIT_HEADER, isCmssyEditRequest } from "@cmssy/next";',
+    );
+    expect(out).toContain('import { cmssy } from "@/cmssy.config";');
+    expect(out).toContain(
+      "async function appMiddleware(request: NextRequest) {",
+    );
+    expect(out).toContain(
+      "export async function middleware(request: NextRequest) {",
+    );
+    expect(out).toContain(
+      "(await appMiddleware(new NextRequest(request, { headers })))",
+    );
+    expect(out).not.toContain("NextFetchEvent");
+    expect(out).toContain(
+      'export const config = { matcher: ["/account/:path*"] };',
+    );
+    expect(missingEditLogic(out, "middleware.ts")).toEqual([]);
+  });
+
+  it("reuses a separate type-only import of NextRequest", () => {
+    const out = composeMiddleware(
+      `import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+
+export function middleware(req: NextRequest) {
+  return NextResponse.next();
+}
+`,
+      "/p/middleware.ts",
+      "@/cmssy.config",
+    )!;
+    expect(out).toContain(
+      'import { NextResponse } from "next/server";\nimport { NextRequest } from "next/server";',
+    );
+    expect(out).not.toContain("import type");
+    expect(out).toContain(
+      "(await appMiddleware(new NextRequest(request, { headers })))",
+    );
+    expect(out).not.toContain("NextFetchEvent");
+  });
+
+  it("passes the event on to a handler that takes it", () => {
+    const out = composeMiddleware(
+      `import { NextResponse } from "next/server";
+import type { NextFetchEvent, NextRequest } from "next/server";
+
+export function middleware(req: NextRequest, event: NextFetchEvent) {
+  event.waitUntil(Promise.resolve());
+  return NextResponse.next();
+}
+`,
+      "/p/middleware.ts",
+      "@/cmssy.config",
+    )!;
+    expect(out).toContain('import { NextResponse } from "next/server";');
+    expect(out).toContain(
+      'import { type NextFetchEvent, NextRequest } from "next/server";',
+    );
+    expect(out.match(/\bNextRequest\b.*from "next\/server"/g)).toHaveLength(1);
+    expect(out).toContain(
+      "export async function middleware(request: NextRequest, event: NextFetchEvent) {",
+    );
+    expect(out).toContain(
+      "(await appMiddleware(new NextRequest(request, { headers }), event))",
+    );
+  });
+
+  it("forwards the edit header through the app's bare NextResponse.next()", async () => {
+    const run = async (handler: string, request: Request) => {
+      const source = composeMiddleware(
+        `import { NextResponse } from "next/server";\n\nexport function middleware() {\n  return ${handler};\n}\n`,
+        "/p/middleware.ts",
+        "@/cmssy.config",
+      )!;
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2022,
+        },
+      });
+      // next/server as far as the wrapper uses it
+      class NextResponse extends Response {
+        static next(init?: { request?: { headers?: Headers } }) {
+          const response = new NextResponse(null, {
+            headers: { "x-middleware-next": "1" },
+          });
+          const headers = init?.request?.headers;
+          if (headers) {
+            response.headers.set(
+              "x-middleware-override-headers",
+              Array.from(headers.keys()).join(","),
+            );
+            headers.forEach((value, key) =>
+              response.headers.set(`x-middleware-request-${key}`, value),
+            );
+          }
+          return response;
+        }
+      }
+      const modules: Record<string, unknown> = {
+        "next/server": { NextRequest: Request, NextResponse },
+        "@cmssy/next": {
+          CMSSY_EDIT_HEADER: "x-cmssy-edit",
+          isCmssyEditRequest: (r: Request) =>
+            new URL(r.url).searchParams.get("cmssyEdit") === "1",
+          applyCmssyCsp: () => {},
+        },
+        "@/cmssy.config": { cmssy: { editorOrigin: "https://cmssy.io" } },
+      };
+      const exports: { middleware?: (r: Request) => Promise<Response> } = {};
+      new Function("require", "exports", outputText)(
+        (id: string) => modules[id],
+        exports,
+      );
+      const { headers } = await exports.middleware!(request);
+      return {
+        overridden: headers.get("x-middleware-override-headers")?.split(","),
+        edit: headers.get("x-middleware-request-x-cmssy-edit"),
+      };
+    };
+
+    const edit = await run(
+      "NextResponse.next()",
+      new Request("https://site.example/?cmssyEdit=1"),
+    );
+    expect(edit.overridden).toContain("x-cmssy-edit");
+    expect(edit.edit).toBe("1");
+
+    const forged = await run(
+      "NextResponse.next()",
+      new Request("https://site.example/", {
+        headers: { "x-cmssy-edit": "1", accept: "text/html" },
+      }),
+    );
+    expect(forged.overridden).toEqual(["accept"]);
+    expect(forged.edit).toBeNull();
+
+    const own = await run(
+      'NextResponse.next({ request: { headers: new Headers({ "x-app": "1" }) } })',
+      new Request("https://site.example/?cmssyEdit=1"),
+    );
+    expect(own.overridden).toEqual(["x-app", "x-cmssy-edit"]);
+    expect(own.edit).toBe("1");
+  });
+
+  it("is a no-op once the cmssy logic is there", () => {
+    const out = composeMiddleware(
+      AUTH_MIDDLEWARE,
+      "/p/middleware.ts",
+      "@/cmssy.config",
+    )!;
+    expect(composeMiddleware(out, "/p/middleware.ts", "@/cmssy.config")).toBe(
+      out,
+    );
+  });
+
+  it("handles default exports and re-exports", () => {
+    const viaDefault = composeMiddleware(
+      `import { withAuth } from "next-auth/middleware";\n\nexport default withAuth({ pages: { signIn: "/login" } });\n`,
+      "/p/proxy.ts",
+      "./cmssy.config",
+    )!;
+    expect(viaDefault).toContain(
+      'const appProxy = withAuth({ pages: { signIn: "/login" } });',
+    );
+    expect(viaDefault).toContain("export async function proxy(");
+
+    const reexport = composeMiddleware(
+      `export { default } from "next-auth/middleware";\n`,
+      "/p/middleware.js",
+      "./cmssy.config",
+    )!;
+    expect(reexport).toContain(
+      'import appMiddleware from "next-auth/middleware";',
+    );
+    expect(reexport).toContain(
+      "export async function middleware(request, event) {",
+    );
+    expect(reexport).not.toContain("NextFetchEvent");
+  });
+
+  it("refuses shapes it can't wrap", () => {
+    expect(
+      composeMiddleware(
+        `const handler = chain([a, b]);\nexport { handler as proxy };\n`,
+        "/p/proxy.ts",
+        "@/cmssy.config",
+      ),
+    ).toBeNull();
+    // a hand-rolled partial setup
+    expect(
+      composeMiddleware(
+        `import { CMSSY_EDIT_HEADER } from "@cmssy/next";\nexport function proxy() {}\n`,
+        "/p/proxy.ts",
+        "@/cmssy.config",
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,478 @@
+import { basename, extname, join } from "node:path";
+import ts from "typescript";
+import { parseSource } from "./ast.js";
+import { appendEdits, applyEdits, type Edit } from "./edits.js";
+import { pathExists } from "./files.js";
+
+/**
+ * Next 16 renamed middleware to "proxy": it loads `proxy.ts` exporting
+ * `proxy`, and still honours a deprecated `middleware.ts`. Earlier versions
+ * only load `middleware.ts` exporting `middleware`.
+ */
+export type MiddlewareKind = "proxy" | "middleware";
+
+export const PROXY_SINCE_MAJOR = 16;
+
+/** The cmssy pieces a project's proxy must use for edit mode to work. */
+export const CMSSY_EDIT_NAMES = [
+  "applyCmssyCsp",
+  "CMSSY_EDIT_HEADER",
+  "isCmssyEditRequest",
+];
+
+const EXTENSIONS = [".ts", ".js"];
+
+export interface MiddlewareFiles {
+  /** absolute paths under the source root, when present */
+  proxy: string | null;
+  middleware: string | null;
+}
+
+export interface LoadedMiddleware {
+  kind: MiddlewareKind;
+  /** the file Next loads; null when there is none yet */
+  file: string | null;
+}
+
+export function findMiddlewareFiles(sourceRoot: string): MiddlewareFiles {
+  const find = (name: MiddlewareKind) =>
+    EXTENSIONS.map((ext) => join(sourceRoot, name + ext)).find((p) =>
+      pathExists(p),
+    ) ?? null;
+  return { proxy: find("proxy"), middleware: find("middleware") };
+}
+
+/** Which file the project's Next version loads (or would load once written). */
+export function loadedMiddleware(
+  files: MiddlewareFiles,
+  nextMajor: number | null,
+): LoadedMiddleware {
+  // Unknown versions ("latest", "canary") are treated as current.
+  const proxyAware = nextMajor === null || nextMajor >= PROXY_SINCE_MAJOR;
+  if (proxyAware) {
+    if (files.proxy) return { kind: "proxy", file: files.proxy };
+    if (files.middleware) return { kind: "middleware", file: files.middleware };
+    return { kind: "proxy", file: null };
+  }
+  return { kind: "middleware", file: files.middleware };
+}
+
+/** The proxy template as the given kind of file (`export function middleware`). */
+export function renderMiddlewareTemplate(
+  template: string,
+  kind: MiddlewareKind,
+): string {
+  return kind === "proxy"
+    ? template
+    : template.replace(
+        /\bexport function proxy\(/,
+        "export function middleware(",
+      );
+}
+
+function identifiers(sf: ts.SourceFile): Set<string> {
+  const used = new Set<string>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) used.add(node.text);
+    ts.forEachChild(node, visit);
+  };
+  visit(sf);
+  return used;
+}
+
+/** cmssy edit-mode names a proxy source never references. */
+export function missingEditLogic(source: string, fileName: string): string[] {
+  const used = identifiers(parseSource(fileName, source));
+  return CMSSY_EDIT_NAMES.filter((n) => !used.has(n));
+}
+
+function isExported(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (m) => m.kind === ts.SyntaxKind.ExportKeyword,
+    )
+  );
+}
+
+function isDefault(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (m) => m.kind === ts.SyntaxKind.DefaultKeyword,
+    )
+  );
+}
+
+/** Range of `export` / `export default` at the start of a declaration. */
+function modifierEdit(sf: ts.SourceFile, node: ts.Node): Edit {
+  const mods = ts.getModifiers(node as ts.HasModifiers) ?? [];
+  const exportish = mods.filter(
+    (m) =>
+      m.kind === ts.SyntaxKind.ExportKeyword ||
+      m.kind === ts.SyntaxKind.DefaultKeyword,
+  );
+  const last = exportish[exportish.length - 1]!;
+  const end = sf.text.slice(last.end).match(/^\s*/)![0].length + last.end;
+  return { start: exportish[0]!.getStart(sf), end, text: "" };
+}
+
+/**
+ * Edits that turn the app's own handler export into a module-local `local`:
+ * `export function middleware`, `export const middleware = ...`,
+ * `export default ...` and `export { x as middleware } from "..."`.
+ * null when the handler's export has some other shape.
+ */
+function unexportHandler(
+  sf: ts.SourceFile,
+  kind: MiddlewareKind,
+  local: string,
+): Edit[] | null {
+  for (const stmt of sf.statements) {
+    if (ts.isFunctionDeclaration(stmt) && isExported(stmt)) {
+      const named = stmt.name?.text === kind && !isDefault(stmt);
+      if (!named && !isDefault(stmt)) continue;
+      const edits = [modifierEdit(sf, stmt)];
+      if (stmt.name) {
+        edits.push({
+          start: stmt.name.getStart(sf),
+          end: stmt.name.end,
+          text: local,
+        });
+      } else {
+        // `export default function (req) {}` - name the function
+        const keyword = stmt
+          .getChildren(sf)
+          .find((c) => c.kind === ts.SyntaxKind.FunctionKeyword)!;
+        edits.push({ start: keyword.end, end: keyword.end, text: ` ${local}` });
+      }
+      return edits;
+    }
+    if (ts.isVariableStatement(stmt) && isExported(stmt)) {
+      const decl = stmt.declarationList.declarations.find(
+        (d) => ts.isIdentifier(d.name) && d.name.text === kind,
+      );
+      if (!decl) continue;
+      if (stmt.declarationList.declarations.length > 1) return null;
+      return [
+        modifierEdit(sf, stmt),
+        { start: decl.name.getStart(sf), end: decl.name.end, text: local },
+      ];
+    }
+    if (ts.isExportAssignment(stmt) && !stmt.isExportEquals) {
+      return [
+        {
+          start: stmt.getStart(sf),
+          end: stmt.expression.getStart(sf),
+          text: `const ${local} = `,
+        },
+      ];
+    }
+    if (
+      ts.isExportDeclaration(stmt) &&
+      stmt.moduleSpecifier &&
+      stmt.exportClause &&
+      ts.isNamedExports(stmt.exportClause)
+    ) {
+      const el = stmt.exportClause.elements.find(
+        (e) => e.name.text === kind || e.name.text === "default",
+      );
+      if (!el) continue;
+      if (stmt.exportClause.elements.length > 1 || stmt.isTypeOnly) {
+        return null;
+      }
+      const imported = (el.propertyName ?? el.name).text;
+      const spec = stmt.moduleSpecifier.getText(sf);
+      const clause =
+        imported === "default"
+          ? `import ${local} from ${spec};`
+          : `import { ${imported} as ${local} } from ${spec};`;
+      return [{ start: stmt.getStart(sf), end: stmt.end, text: clause }];
+    }
+  }
+  return null;
+}
+
+/**
+ * How many arguments the app's handler declares, when it's a function this
+ * file defines; null when it can't be told (a call result, a re-export).
+ */
+function handlerArity(sf: ts.SourceFile, kind: MiddlewareKind): number | null {
+  const arity = (node: ts.Node | undefined): number | null => {
+    if (
+      !node ||
+      !(
+        ts.isFunctionDeclaration(node) ||
+        ts.isFunctionExpression(node) ||
+        ts.isArrowFunction(node)
+      )
+    ) {
+      return null;
+    }
+    return node.parameters.some((p) => p.dotDotDotToken)
+      ? Infinity
+      : node.parameters.length;
+  };
+  const local = (name: string): ts.Node | undefined => {
+    for (const stmt of sf.statements) {
+      if (ts.isFunctionDeclaration(stmt) && stmt.name?.text === name) {
+        return stmt;
+      }
+      if (!ts.isVariableStatement(stmt)) continue;
+      const decl = stmt.declarationList.declarations.find(
+        (d) => ts.isIdentifier(d.name) && d.name.text === name,
+      );
+      if (decl) return decl.initializer;
+    }
+    return undefined;
+  };
+  for (const stmt of sf.statements) {
+    if (ts.isFunctionDeclaration(stmt) && isExported(stmt)) {
+      if (isDefault(stmt) || stmt.name?.text === kind) return arity(stmt);
+    }
+    if (ts.isVariableStatement(stmt) && isExported(stmt)) {
+      const decl = stmt.declarationList.declarations.find(
+        (d) => ts.isIdentifier(d.name) && d.name.text === kind,
+      );
+      if (decl) return arity(decl.initializer);
+    }
+    if (ts.isExportAssignment(stmt) && !stmt.isExportEquals) {
+      const value = stmt.expression;
+      return arity(ts.isIdentifier(value) ? local(value.text) : value);
+    }
+  }
+  return null;
+}
+
+interface NeededImport {
+  name: string;
+  typeOnly: boolean;
+}
+
+/**
+ * Edits that make `names` importable from `module`, reusing an existing
+ * import - including an `import type { X }` of a name needed as a value,
+ * which becomes a value import so X isn't declared twice.
+ */
+function importEdits(
+  sf: ts.SourceFile,
+  module: string,
+  names: NeededImport[],
+  isTs: boolean,
+): Edit[] {
+  const wanted = names.filter((n) => isTs || !n.typeOnly);
+  const decls = sf.statements.filter(ts.isImportDeclaration);
+  const fromModule = decls.filter(
+    (d) =>
+      ts.isStringLiteral(d.moduleSpecifier) &&
+      d.moduleSpecifier.text === module &&
+      d.importClause?.namedBindings &&
+      ts.isNamedImports(d.importClause.namedBindings),
+  );
+  const elements = (d: ts.ImportDeclaration) =>
+    (d.importClause!.namedBindings as ts.NamedImports).elements;
+  const existing = fromModule.find((d) => !d.importClause!.isTypeOnly);
+  const named = existing?.importClause?.namedBindings as
+    ts.NamedImports | undefined;
+
+  const values = new Set(wanted.filter((n) => !n.typeOnly).map((n) => n.name));
+  const converted = new Set<ts.ImportDeclaration>();
+  const edits: Edit[] = [];
+  const added: string[] = [];
+  for (const n of wanted) {
+    const decl = fromModule.find((d) =>
+      elements(d).some((e) => !e.propertyName && e.name.text === n.name),
+    );
+    if (decl) {
+      const el = elements(decl).find(
+        (e) => !e.propertyName && e.name.text === n.name,
+      )!;
+      if (n.typeOnly) continue;
+      // the wrapper constructs a NextRequest, so it can't stay type-only
+      if (el.isTypeOnly) {
+        edits.push({
+          start: el.getStart(sf),
+          end: el.name.getStart(sf),
+          text: "",
+        });
+      } else if (decl.importClause!.isTypeOnly && !converted.has(decl)) {
+        converted.add(decl);
+        // `import type { A, B }` -> `import { A, type B }`
+        const keyword = decl
+          .importClause!.getChildren(sf)
+          .find((c) => c.kind === ts.SyntaxKind.TypeKeyword)!;
+        const after = sf.text.slice(keyword.end).match(/^\s*/)![0].length;
+        edits.push({
+          start: keyword.getStart(sf),
+          end: keyword.end + after,
+          text: "",
+        });
+        for (const other of elements(decl)) {
+          if (other.propertyName || !values.has(other.name.text)) {
+            edits.push({
+              start: other.getStart(sf),
+              end: other.getStart(sf),
+              text: "type ",
+            });
+          }
+        }
+      }
+      continue;
+    }
+    added.push(n.typeOnly ? `type ${n.name}` : n.name);
+  }
+  if (!added.length) return edits;
+
+  if (named) {
+    return [...edits, ...appendEdits(sf.text, sf, named, added.join(", "))];
+  }
+  const last = decls[decls.length - 1];
+  const at = last ? last.end : 0;
+  const line = `import { ${added.join(", ")} } from "${module}";`;
+  edits.push({ start: at, end: at, text: last ? `\n${line}` : `${line}\n` });
+  return edits;
+}
+
+/**
+ * Wrap an app's existing proxy/middleware with cmssy edit-mode handling: its
+ * handler becomes a local function the new export calls with the edit header
+ * set (and stripped from inbound requests), the response it returns carries
+ * those request headers on to the page, and gets the editor CSP in edit mode. Returns the source unchanged when it already uses the
+ * cmssy helpers, or null when the handler export can't be found.
+ */
+export function composeMiddleware(
+  source: string,
+  fileName: string,
+  configSpecifier: string,
+): string | null {
+  const sf = parseSource(fileName, source);
+  const used = identifiers(sf);
+  const missing = CMSSY_EDIT_NAMES.filter((n) => !used.has(n));
+  if (missing.length === 0) return source;
+  // Some of the helpers but not all: a hand-rolled setup we shouldn't wrap.
+  if (missing.length < CMSSY_EDIT_NAMES.length) return null;
+
+  const kind: MiddlewareKind = basename(fileName, extname(fileName)).startsWith(
+    "middleware",
+  )
+    ? "middleware"
+    : "proxy";
+  const local = kind === "proxy" ? "appProxy" : "appMiddleware";
+  const handlerEdits = unexportHandler(sf, kind, local);
+  if (!handlerEdits) return null;
+
+  const isTs = /\.tsx?$/.test(fileName);
+  // Only pass the request and event on to a handler that takes them:
+  // TypeScript rejects the extra arguments otherwise.
+  const arity = handlerArity(sf, kind);
+  const passEvent = arity === null || arity >= 2;
+  const passRequest = arity !== 0;
+  const edits = [
+    ...handlerEdits,
+    ...importEdits(
+      sf,
+      "next/server",
+      [
+        { name: "NextRequest", typeOnly: !passRequest },
+        { name: "NextResponse", typeOnly: false },
+        ...(passEvent ? [{ name: "NextFetchEvent", typeOnly: true }] : []),
+      ],
+      isTs,
+    ),
+    ...importEdits(
+      sf,
+      "@cmssy/next",
+      CMSSY_EDIT_NAMES.map((name) => ({ name, typeOnly: false })),
+      isTs,
+    ),
+  ];
+  if (!used.has("cmssy")) {
+    edits.push(
+      ...importEdits(
+        sf,
+        configSpecifier,
+        [{ name: "cmssy", typeOnly: false }],
+        isTs,
+      ),
+    );
+  }
+
+  if (!sf.statements.some(ts.isImportDeclaration)) {
+    edits.push({ start: 0, end: 0, text: "\n" });
+  }
+
+  const params = [
+    isTs ? "request: NextRequest" : "request",
+    ...(passEvent ? [isTs ? "event: NextFetchEvent" : "event"] : []),
+  ].join(", ");
+  const args = [
+    ...(passRequest ? ["new NextRequest(request, { headers })"] : []),
+    ...(passEvent ? ["event"] : []),
+  ].join(", ");
+  const forwardParams = isTs
+    ? "response: Response, headers: Headers"
+    : "response, headers";
+  const wrapper = `
+// cmssy edit mode, wrapped around the handler above: detects \`?cmssyEdit=1\`,
+// exposes it to server components via CMSSY_EDIT_HEADER (stripped from inbound
+// requests first so a client can't forge it) and applies the CSP
+// \`frame-ancestors\` that lets the cmssy editor frame this site.
+export async function ${kind}(${params}) {
+  const editMode = isCmssyEditRequest(request);
+
+  const headers = new Headers(request.headers);
+  headers.delete(CMSSY_EDIT_HEADER);
+  if (editMode) headers.set(CMSSY_EDIT_HEADER, "1");
+
+  const response =
+    (await ${local}(${args})) ??
+    NextResponse.next({ request: { headers } });
+  forwardCmssyHeaders(response, headers);
+  if (editMode) {
+    applyCmssyCsp(response, { editorOrigin: cmssy.editorOrigin });
+  }
+  return response;
+}
+
+// Carries the request headers above onto a response that lets the request
+// through (NextResponse.next() or a rewrite), as
+// \`NextResponse.next({ request: { headers } })\` would: a bare one gets them
+// all, and one with request headers of its own keeps those with the edit
+// header settled.
+function forwardCmssyHeaders(${forwardParams}) {
+  if (
+    !response.headers.has("x-middleware-next") &&
+    !response.headers.has("x-middleware-rewrite")
+  ) {
+    return;
+  }
+  const overridden = response.headers.get("x-middleware-override-headers");
+  if (overridden === null) {
+    headers.forEach((value, key) => {
+      response.headers.set(\`x-middleware-request-\${key}\`, value);
+    });
+    response.headers.set(
+      "x-middleware-override-headers",
+      Array.from(headers.keys()).join(","),
+    );
+    return;
+  }
+  const edit = CMSSY_EDIT_HEADER.toLowerCase();
+  const names = overridden.split(",").filter((name) => name && name !== edit);
+  response.headers.delete(\`x-middleware-request-\${edit}\`);
+  const value = headers.get(edit);
+  if (value !== null) {
+    names.push(edit);
+    response.headers.set(\`x-middleware-request-\${edit}\`, value);
+  }
+  response.headers.set("x-middleware-override-headers", names.join(","));
+}
+`;
+  const end = source.length;
+  edits.push({
+    start: end,
+    end,
+    text: source.endsWith("\n") ? wrapper : `\n${wrapper}`,
+  });
+  return applyEdits(source, edits);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import ts from "typescript";
+import { mountDraftRoute, scopeProxyMatcher } from "./mount.js";
+import { readTemplate } from "./templates.js";
+
+describe("scopeProxyMatcher", () => {
+  it("limits the proxy to the mount", () => {
+    const out = scopeProxyMatcher(
+      readTemplate("init", "proxy.ts"),
+      "/marketing",
+    );
+    expect(out).toContain(
+      '  // Only the cmssy pages mounted under /marketing.\n  matcher: ["/marketing", "/marketing/:path*"],',
+    );
+    expect(out).not.toContain("_next/");
+  });
+
+  it("leaves the root matcher alone without a mount", () => {
+    const tpl = readTemplate("init", "proxy.ts");
+    expect(scopeProxyMatcher(tpl, "")).toBe(tpl);
+  });
+});
+
+describe("mountDraftRoute", () => {
+  it("prefixes the preview redirect with the mount", () => {
+    const out = mountDraftRoute(
+      readTemplate("init", "app", "api", "draft", "route.ts"),
+      "/marketing",
+    );
+    expect(out).toContain("const draft = createDraftRoute(cmssy);");
+    expect(out).toContain('const MOUNT = "/marketing";');
+    expect(out).toContain("export async function GET(request: Request) {");
+    expect(out).not.toContain("export const GET");
+  });
+
+  it("prefixes an absolute redirect's path, keeping its origin", async () => {
+    const source = mountDraftRoute(
+      readTemplate("init", "app", "api", "draft", "route.ts"),
+      "/marketing",
+    );
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS },
+    });
+    // the SDK's draft handler: NextResponse.redirect with an absolute URL
+    const redirectTo = (location: string) => ({
+      createDraftRoute: () => async () =>
+        new Response(null, { status: 307, headers: { location } }),
+    });
+    const GET = (location: string) => {
+      const exports: { GET?: (r: Request) => Promise<Response> } = {};
+      new Function("require", "exports", outputText)(
+        (id: string) => (id === "@cmssy/next" ? redirectTo(location) : {}),
+        exports,
+      );
+      return exports.GET!(new Request("https://site.example/api/draft"));
+    };
+    const location = async (to: string) =>
+      (await GET(to)).headers.get("location");
+
+    expect(await location("https://site.example/about?x=1")).toBe(
+      "https://site.example/marketing/about?x=1",
+    );
+    expect(await location("https://site.example/")).toBe(
+      "https://site.example/marketing",
+    );
+    expect(await location("/about")).toBe(
+      "https://site.example/marketing/about",
+    );
+    expect(await location("https://site.example/marketing/about")).toBe(
+      "https://site.example/marketing/about",
+    );
+    expect(await location("https://other.example/about")).toBe(
+      "https://other.example/about",
+    );
+  });
+});
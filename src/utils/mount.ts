@@ -0,0 +1,53 @@
+/**
+ * Template adjustments for cmssy mounted under a path (`cmssy init --mount
+ * /marketing`). The catch-all's `path` param is already relative to the
+ * mount, so cmssy page paths (and buildCmssyMetadata) stay site-relative:
+ * the cmssy page `/about` renders at `/marketing/about`.
+ */
+
+const ROOT_MATCHER =
+  /( *)\/\/ Skip Next internals[^\n]*\n( *)matcher: \[[^\n]*\],/;
+
+/** Scope the proxy template's matcher to the mount instead of the whole site. */
+export function scopeProxyMatcher(content: string, mount: string): string {
+  if (!mount) return content;
+  return content.replace(
+    ROOT_MATCHER,
+    (_m, commentIndent: string, indent: string) =>
+      `${commentIndent}// Only the cmssy pages mounted under ${mount}.\n` +
+      `${indent}matcher: ["${mount}", "${mount}/:path*"],`,
+  );
+}
+
+const DRAFT_EXPORT = /export const GET = createDraftRoute\(cmssy\);\n/;
+
+/**
+ * The draft route redirects into preview at a site-relative page path;
+ * prefix that redirect with the mount so it lands on the mounted page. The
+ * SDK sends an absolute Location, so the prefix goes on its pathname.
+ */
+export function mountDraftRoute(content: string, mount: string): string {
+  if (!mount) return content;
+  return content.replace(
+    DRAFT_EXPORT,
+    `const draft = createDraftRoute(cmssy);
+
+// cmssy pages are mounted under ${mount}; cmssy page paths are relative to it.
+const MOUNT = "${mount}";
+
+export async function GET(request: Request) {
+  const response = await draft(request);
+  const location = response.headers.get("location");
+  if (!location) return response;
+  const url = new URL(location, request.url);
+  if (url.origin !== new URL(request.url).origin) return response;
+  if (url.pathname !== MOUNT && !url.pathname.startsWith(\`\${MOUNT}/\`)) {
+    url.pathname = url.pathname === "/" ? MOUNT : MOUNT + url.pathname;
+  }
+  const headers = new Headers(response.headers);
+  headers.set("location", url.toString());
+  return new Response(response.body, { status: response.status, headers });
+}
+`,
+  );
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { addRemotePattern, remotePatternStatus } from "./next-config.js";
+
+describe("addRemotePattern", () => {
+  it("adds images to a plain exported object", () => {
+    const src = `const nextConfig = {\n  reactStrictMode: true,\n};\n\nexport default nextConfig;\n`;
+    expect(addRemotePattern(src, "next.config.mjs")).toBe(
+      `const nextConfig = {\n  reactStrictMode: true,\n  images: {\n    remotePatterns: [{ protocol: "https", hostname: "assets.cmssy.io" }],\n  },\n};\n\nexport default nextConfig;\n`,
+    );
+  });
+
+  it("adds to an empty inline object", () => {
+    expect(addRemotePattern("export default {};\n", "next.config.mjs")).toBe(
+      `export default { images: { remotePatterns: [{ protocol: "https", hostname: "assets.cmssy.io" }] } };\n`,
+    );
+  });
+
+  it("appends to existing remotePatterns, keeping the file's quotes", () => {
+    const src = [
+      "import type { NextConfig } from 'next';",
+      "",
+      "const config: NextConfig = {",
+      "  images: {",
+      "    remotePatterns: [",
+      "      { protocol: 'https', hostname: 'images.example.com' },",
+      "    ],",
+      "  },",
+      "};",
+      "",
+      "export default config;",
+      "",
+    ].join("\n");
+    const out = addRemotePattern(src, "next.config.ts")!;
+    expect(out).toContain(
+      "      { protocol: 'https', hostname: 'images.example.com' },\n      { protocol: 'https', hostname: 'assets.cmssy.io' },\n    ],",
+    );
+  });
+
+  it("adds remotePatterns to an images object without one", () => {
+    const src = `module.exports = { images: { unoptimized: true } };\n`;
+    expect(addRemotePattern(src, "next.config.js")).toBe(
+      `module.exports = { images: { unoptimized: true, remotePatterns: [{ protocol: "https", hostname: "assets.cmssy.io" }] } };\n`,
+    );
+  });
+
+  it("follows plugin wrappers and defineConfig-style calls", () => {
+    const wrapped = `import createMDX from "@next/mdx";\nconst withMDX = createMDX({ extension: /\\.mdx$/ });\nconst nextConfig = { pageExtensions: ["ts", "tsx", "mdx"] };\nexport default withMDX(nextConfig);\n`;
+    const out = addRemotePattern(wrapped, "next.config.mjs")!;
+    expect(out).toContain(
+      `const nextConfig = { pageExtensions: ["ts", "tsx", "mdx"], images: {`,
+    );
+    expect(out).toContain(
+      `const withMDX = createMDX({ extension: /\\.mdx$/ });`,
+    );
+
+    const defined = `export default defineConfig({ output: "standalone" });\n`;
+    expect(addRemotePattern(defined, "next.config.ts")).toContain(
+      `defineConfig({ output: "standalone", images: {`,
+    );
+  });
+
+  it("follows config functions", () => {
+    const src = `module.exports = (phase) => {\n  return { basePath: "/x" };\n};\n`;
+    expect(remotePatternStatus(src, "next.config.js")).toBe("missing");
+    expect(addRemotePattern(src, "next.config.js")).toContain(
+      `{ basePath: "/x", images: {`,
+    );
+  });
+
+  it("leaves an allowed host alone, including wildcards and URL patterns", () => {
+    for (const pattern of [
+      `{ protocol: "https", hostname: "assets.cmssy.io" }`,
+      `{ hostname: "**.cmssy.io" }`,
+      `new URL("https://assets.cmssy.io/**")`,
+    ]) {
+      const src = `export default { images: { remotePatterns: [${pattern}] } };\n`;
+      expect(remotePatternStatus(src, "next.config.mjs")).toBe("present");
+      expect(addRemotePattern(src, "next.config.mjs")).toBe(src);
+    }
+    expect(
+      remotePatternStatus(
+        `export default { images: { remotePatterns: [{ hostname: "*.io" }] } };`,
+        "next.config.mjs",
+      ),
+    ).toBe("missing");
+  });
+
+  it("returns null for shapes it can't follow", () => {
+    expect(
+      addRemotePattern(
+        `import base from "./base.mjs";\nexport default base;\n`,
+        "next.config.mjs",
+      ),
+    ).toBeNull();
+    expect(
+      addRemotePattern(
+        `const images = {};\nexport default { images: imagesFrom(images) };\n`,
+        "next.config.mjs",
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import { join } from "node:path";
+import ts from "typescript";
+import {
+  getProperty,
+  parseSource,
+  propertyValue,
+  stringValue,
+  unwrapExpression,
+} from "./ast.js";
+import { appendEdits, applyEdits, isMultiline, type Edit } from "./edits.js";
+import { pathExists, readText, writeText } from "./files.js";
+
+export const NEXT_CONFIG_FILES = [
+  "next.config.ts",
+  "next.config.mjs",
+  "next.config.js",
+  "next.config.cjs",
+];
+
+/** Where cmssy serves media from; next/image needs it in images.remotePatterns. */
+export const CMSSY_IMAGE_HOST = "assets.cmssy.io";
+
+export type RemotePatternStatus = "present" | "missing" | "unrecognized";
+
+/** The project's next.config.* file name, if it has one. */
+export function findNextConfig(dir: string): string | null {
+  return NEXT_CONFIG_FILES.find((f) => pathExists(join(dir, f))) ?? null;
+}
+
+function topLevelValues(sf: ts.SourceFile): Map<string, ts.Expression> {
+  const out = new Map<string, ts.Expression>();
+  for (const stmt of sf.statements) {
+    if (!ts.isVariableStatement(stmt)) continue;
+    for (const decl of stmt.declarationList.declarations) {
+      if (ts.isIdentifier(decl.name) && decl.initializer) {
+        out.set(decl.name.text, decl.initializer);
+      }
+    }
+  }
+  return out;
+}
+
+function returnedValue(body: ts.Block): ts.Expression | undefined {
+  const ret = [...body.statements].reverse().find(ts.isReturnStatement);
+  return ret?.expression;
+}
+
+/**
+ * Follow a config expression to the object literal it ends up as: through
+ * variables, `defineConfig({...})`-style wrappers, plugin wrappers such as
+ * `withMDX(config)` (first argument that resolves wins) and
+ * `(phase) => ({...})` config functions.
+ */
+function resolveObject(
+  expr: ts.Expression | undefined,
+  values: Map<string, ts.Expression>,
+  depth = 0,
+): ts.ObjectLiteralExpression | null {
+  if (!expr || depth > 8) return null;
+  const node = unwrapExpression(expr);
+  if (ts.isObjectLiteralExpression(node)) return node;
+  if (ts.isIdentifier(node)) {
+    return resolveObject(values.get(node.text), values, depth + 1);
+  }
+  if (ts.isCallExpression(node)) {
+    for (const arg of node.arguments) {
+      const found = resolveObject(arg, values, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    const body = ts.isBlock(node.body) ? returnedValue(node.body) : node.body;
+    return resolveObject(body, values, depth + 1);
+  }
+  return null;
+}
+
+function isModuleExports(node: ts.Expression): boolean {
+  return (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "module" &&
+    node.name.text === "exports"
+  );
+}
+
+/** The config object a next.config module exports, ESM or CommonJS. */
+function exportedConfig(sf: ts.SourceFile): ts.ObjectLiteralExpression | null {
+  const values = topLevelValues(sf);
+  for (const stmt of sf.statements) {
+    if (ts.isExportAssignment(stmt) && !stmt.isExportEquals) {
+      return resolveObject(stmt.expression, values);
+    }
+    if (
+      ts.isFunctionDeclaration(stmt) &&
+      stmt.body &&
+      stmt.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)
+    ) {
+      return resolveObject(returnedValue(stmt.body), values);
+    }
+    if (
+      ts.isExpressionStatement(stmt) &&
+      ts.isBinaryExpression(stmt.expression) &&
+      stmt.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      isModuleExports(stmt.expression.left)
+    ) {
+      return resolveObject(stmt.expression.right, values);
+    }
+  }
+  return null;
+}
+
+/** next/image hostname globs: `*` is one label, `**` any number. */
+function hostMatches(pattern: string): boolean {
+  const re = pattern
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^.]+"),
+    )
+    .join(".*");
+  return new RegExp(`^${re}$`).test(CMSSY_IMAGE_HOST);
+}
+
+function coversCmssy(pattern: ts.Expression): boolean {
+  const node = unwrapExpression(pattern);
+  if (ts.isObjectLiteralExpression(node)) {
+    const hostname = stringValue(propertyValue(node, "hostname"));
+    return hostname !== null && hostMatches(hostname);
+  }
+  // Next 15.3+: `new URL("https://assets.cmssy.io/**")`
+  if (ts.isNewExpression(node)) {
+    const url = stringValue(node.arguments?.[0]);
+    return url !== null && url.includes(`//${CMSSY_IMAGE_HOST}`);
+  }
+  return false;
+}
+
+interface Located {
+  sf: ts.SourceFile;
+  config: ts.ObjectLiteralExpression | null;
+  images: ts.ObjectLiteralExpression | null;
+  patterns: ts.ArrayLiteralExpression | null;
+  status: RemotePatternStatus;
+}
+
+function locate(source: string, fileName: string): Located {
+  const sf = parseSource(fileName, source);
+  const config = exportedConfig(sf);
+  const none = { sf, config, images: null, patterns: null };
+  if (!config) return { ...none, status: "unrecognized" };
+
+  if (!getProperty(config, "images")) return { ...none, status: "missing" };
+  const images = propertyValue(config, "images");
+  if (!images || !ts.isObjectLiteralExpression(images)) {
+    return { ...none, status: "unrecognized" };
+  }
+  if (!getProperty(images, "remotePatterns")) {
+    return { ...none, images, status: "missing" };
+  }
+  const patterns = propertyValue(images, "remotePatterns");
+  if (!patterns || !ts.isArrayLiteralExpression(patterns)) {
+    return { ...none, images, status: "unrecognized" };
+  }
+  return {
+    sf,
+    config,
+    images,
+    patterns,
+    status: patterns.elements.some(coversCmssy) ? "present" : "missing",
+  };
+}
+
+/** Whether a next.config source allows cmssy media in images.remotePatterns. */
+export function remotePatternStatus(
+  source: string,
+  fileName: string,
+): RemotePatternStatus {
+  return locate(source, fileName).status;
+}
+
+function quoteOf(sf: ts.SourceFile): string {
+  let single = 0;
+  let double = 0;
+  const visit = (node: ts.Node): void => {
+    if (ts.isStringLiteral(node)) {
+      if (node.getText(sf).startsWith("'")) single++;
+      else double++;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sf);
+  return single > double ? "'" : '"';
+}
+
+function indentUnit(source: string): string {
+  return /^([ \t]+)\S/m.exec(source)?.[1] ?? "  ";
+}
+
+/**
+ * Add the cmssy media host to a next.config source's images.remotePatterns.
+ * Returns the source unchanged when it is already allowed, or null when the
+ * exported config's shape can't be followed.
+ */
+export function addRemotePattern(
+  source: string,
+  fileName: string,
+): string | null {
+  const { sf, config, images, patterns, status } = locate(source, fileName);
+  if (status === "present") return source;
+  if (status === "unrecognized" || !config) return null;
+
+  const q = quoteOf(sf);
+  const pattern = `{ protocol: ${q}https${q}, hostname: ${q}${CMSSY_IMAGE_HOST}${q} }`;
+  const unit = indentUnit(source);
+  let edits: Edit[];
+  if (patterns) {
+    edits = appendEdits(source, sf, patterns, pattern);
+  } else if (images) {
+    edits = appendEdits(source, sf, images, `remotePatterns: [${pattern}]`);
+  } else {
+    const text = isMultiline(sf, config)
+      ? `images: {\n${unit}remotePatterns: [${pattern}],\n}`
+      : `images: { remotePatterns: [${pattern}] }`;
+    edits = appendEdits(source, sf, config, text);
+  }
+  return applyEdits(source, edits);
+}
+
+export type PatchResult = "patched" | "present" | "unrecognized";
+
+/** Add the cmssy media host to an existing next.config.* file in place. */
+export async function patchNextConfig(file: string): Promise<PatchResult> {
+  const source = await readText(file);
+  const patched = addRemotePattern(source, file);
+  if (patched === null) return "unrecognized";
+  if (patched === source) return "present";
+  await writeText(file, patched);
+  return "patched";
+}
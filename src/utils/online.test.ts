@@ -0,0 +1,115 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { resolveWorkspace } from "./delivery.js";
+import { probeDraftRoute, probeEditCsp } from "./online.js";
+
+// One local stand-in for both the delivery API (POST /graphql) and a dev
+// server running the cmssy wiring, with "demo" / "s3cret" configured.
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "POST" && url.pathname === "/graphql") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const { variables } = JSON.parse(body);
+        const config =
+          variables.workspaceSlug === "demo"
+            ? {
+                siteName: { en: "Demo" },
+                defaultLanguage: "en",
+                enabledLanguages: ["en", "pl"],
+              }
+            : null;
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ data: { publicSiteConfig: config } }));
+      });
+      return;
+    }
+    if (url.pathname === "/api/draft") {
+      if (url.searchParams.get("secret") !== "s3cret") {
+        res.statusCode = 401;
+      } else {
+        res.statusCode = 307;
+        res.setHeader("location", "/");
+      }
+      res.end();
+      return;
+    }
+    if (url.pathname !== "/" && !url.pathname.startsWith("/site")) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    if (url.pathname.startsWith("/site") && url.searchParams.has("cmssyEdit")) {
+      res.setHeader(
+        "content-security-policy",
+        "default-src 'self'; frame-ancestors 'self' https://app.cmssy.io",
+      );
+    }
+    res.end("ok");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("resolveWorkspace against a local delivery API", () => {
+  it("reports the site name and languages", async () => {
+    expect(await resolveWorkspace("demo", `${base}/graphql`)).toEqual({
+      status: "found",
+      siteName: "Demo",
+      defaultLanguage: "en",
+      languages: ["en", "pl"],
+    });
+    expect(await resolveWorkspace("other", `${base}/graphql`)).toEqual({
+      status: "not-found",
+    });
+  });
+});
+
+describe("probeDraftRoute", () => {
+  it("accepts the right secret and reports the redirect", async () => {
+    expect(await probeDraftRoute(base, "s3cret")).toEqual({
+      status: "ok",
+      httpStatus: 307,
+      location: "/",
+    });
+  });
+
+  it("tells a rejected secret from a missing route", async () => {
+    expect(await probeDraftRoute(base, "wrong")).toEqual({
+      status: "rejected",
+      httpStatus: 401,
+    });
+    expect(await probeDraftRoute(`${base}/nowhere`, "s3cret")).toEqual({
+      status: "missing",
+    });
+  });
+
+  it("reports an unreachable server", async () => {
+    const probe = await probeDraftRoute("http://127.0.0.1:1", "s3cret");
+    expect(probe.status).toBe("error");
+  });
+});
+
+describe("probeEditCsp", () => {
+  it("reads frame-ancestors from an edit-mode page under the mount", async () => {
+    expect(await probeEditCsp(base, "/site")).toEqual({
+      status: "ok",
+      frameAncestors: "'self' https://app.cmssy.io",
+    });
+  });
+
+  it("flags edit mode without the CSP", async () => {
+    expect(await probeEditCsp(base)).toEqual({
+      status: "missing",
+      httpStatus: 200,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Probes against a running dev server, for `cmssy doctor --online`: the draft
+ * route accepts the draft secret, and edit-mode pages carry the CSP that lets
+ * the cmssy editor frame them.
+ */
+
+export const DRAFT_ROUTE = "/api/draft";
+export const EDIT_PARAM = "cmssyEdit";
+
+export type DraftProbe =
+  | { status: "ok"; httpStatus: number; location: string | null }
+  | { status: "rejected"; httpStatus: number }
+  | { status: "missing" }
+  | { status: "error"; message: string };
+
+export type CspProbe =
+  | { status: "ok"; frameAncestors: string }
+  | { status: "missing"; httpStatus: number }
+  | { status: "error"; message: string };
+
+/** Join a dev server URL and a site path, keeping any base path on the URL. */
+function pageUrl(serverUrl: string, path: string): URL {
+  const url = new URL(serverUrl);
+  url.pathname = url.pathname.replace(/\/$/, "") + path;
+  return url;
+}
+
+function unreachable(serverUrl: string, err: unknown): string {
+  const reason = err instanceof Error ? err.message : String(err);
+  return `couldn't reach ${serverUrl} (${reason})`;
+}
+
+/**
+ * Call the draft route the way the editor does, with the draft secret. A
+ * redirect (or 2xx) means the secret matched; 401/403 that it didn't.
+ */
+export async function probeDraftRoute(
+  serverUrl: string,
+  secret: string,
+): Promise<DraftProbe> {
+  const url = pageUrl(serverUrl, DRAFT_ROUTE);
+  url.searchParams.set("secret", secret);
+  try {
+    const res = await fetch(url, { redirect: "manual" });
+    if (res.status === 404) return { status: "missing" };
+    if (res.status === 401 || res.status === 403) {
+      return { status: "rejected", httpStatus: res.status };
+    }
+    if (res.status >= 400) {
+      return {
+        status: "error",
+        message: `${DRAFT_ROUTE} returned ${res.status}`,
+      };
+    }
+    return {
+      status: "ok",
+      httpStatus: res.status,
+      location: res.headers.get("location"),
+    };
+  } catch (err) {
+    return { status: "error", message: unreachable(serverUrl, err) };
+  }
+}
+
+/** Request a page in edit mode and read the CSP `frame-ancestors` it gets. */
+export async function probeEditCsp(
+  serverUrl: string,
+  mount = "",
+): Promise<CspProbe> {
+  const url = pageUrl(serverUrl, mount || "/");
+  url.searchParams.set(EDIT_PARAM, "1");
+  try {
+    const res = await fetch(url, { redirect: "manual" });
+    const csp = res.headers.get("content-security-policy") ?? "";
+    const directive = csp
+      .split(";")
+      .map((d) => d.trim())
+      .find((d) => /^frame-ancestors\b/i.test(d));
+    return directive
+      ? {
+          status: "ok",
+          frameAncestors: directive.replace(/^frame-ancestors\s*/i, ""),
+        }
+      : { status: "missing", httpStatus: res.status };
+  } catch (err) {
+    return { status: "error", message: unreachable(serverUrl, err) };
+  }
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  collect,
+  confirm,
+  endJson,
+  InputRequiredError,
+  interactive,
+  jsonDocument,
+  log,
+  report,
+  startJson,
+} from "./output.js";
+
+afterEach(() => endJson());
+
+describe("json mode", () => {
+  it("collects nothing outside JSON mode", () => {
+    expect(collect("warning", "careful")).toBe(false);
+    report({ ignored: true });
+    expect(JSON.parse(jsonDocument(true))).toEqual({ ok: true });
+  });
+
+  it("merges reported fields, warnings and errors into one document", () => {
+    startJson();
+    report({ checks: [] });
+    report({ fixed: ["Write proxy.ts"] });
+    log.warn("\x1b[33mcareful\x1b[39m");
+    log.error("first");
+    log.error("second");
+    expect(JSON.parse(jsonDocument(false))).toEqual({
+      ok: false,
+      checks: [],
+      fixed: ["Write proxy.ts"],
+      warnings: ["careful"],
+      error: "first\nsecond",
+    });
+  });
+
+  it("never prompts", async () => {
+    startJson();
+    expect(interactive()).toBe(false);
+    await expect(confirm({ message: "Delete?" })).rejects.toThrow(
+      InputRequiredError,
+    );
+  });
+
+  it("starts each document empty", () => {
+    startJson();
+    report({ plan: [] });
+    startJson();
+    expect(JSON.parse(jsonDocument(true))).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,148 @@
+import * as clack from "@clack/prompts";
+
+/**
+ * `--json` mode. Commands run their normal logic and talk to the terminal
+ * through the clack wrappers below; while JSON mode is on, nothing
+ * decorative is printed, warnings and errors they log are collected, results
+ * they report() are merged, and the CLI prints one JSON document at the end.
+ * Prompts can't be answered there, so reaching one throws
+ * InputRequiredError.
+ */
+interface JsonDocument {
+  result: Record<string, unknown>;
+  warnings: string[];
+  errors: string[];
+}
+
+let doc: JsonDocument | null = null;
+
+export function startJson(): void {
+  doc = { result: {}, warnings: [], errors: [] };
+}
+
+/** Leave JSON mode, dropping anything collected. */
+export function endJson(): void {
+  doc = null;
+}
+
+export function isJson(): boolean {
+  return doc !== null;
+}
+
+/** Whether a command may prompt: a terminal, and not in JSON mode. */
+export function interactive(): boolean {
+  return !doc && Boolean(process.stdin.isTTY);
+}
+
+/** Add fields to the command's JSON result; a no-op outside JSON mode. */
+export function report(result: Record<string, unknown>): void {
+  if (doc) Object.assign(doc.result, result);
+}
+
+/** Record an error or warning in JSON mode. Returns false outside it. */
+export function collect(kind: "warning" | "error", message: string): boolean {
+  if (!doc) return false;
+  const plain = message.replace(/\x1b\[[0-9;]*m/g, "");
+  (kind === "error" ? doc.errors : doc.warnings).push(plain);
+  return true;
+}
+
+/**
+ * The document for a finished command: `ok` mirrors the exit code, then the
+ * reported fields, then any warnings and the error(s).
+ */
+export function jsonDocument(ok: boolean): string {
+  const { result, warnings, errors } = doc ?? {
+    result: {},
+    warnings: [],
+    errors: [],
+  };
+  return JSON.stringify(
+    {
+      ok,
+      ...result,
+      ...(warnings.length ? { warnings } : {}),
+      ...(errors.length ? { error: errors.join("\n") } : {}),
+    },
+    null,
+    2,
+  );
+}
+
+/** A prompt reached in JSON mode, where nobody can answer it. */
+export class InputRequiredError extends Error {
+  constructor(readonly prompt: string) {
+    super(`"${prompt}" needs an answer - pass it as a flag with --json`);
+    this.name = "InputRequiredError";
+  }
+}
+
+function ask(message: string): void {
+  if (doc) throw new InputRequiredError(message);
+}
+
+const quiet =
+  <A extends unknown[]>(fn: (...args: A) => void) =>
+  (...args: A): void => {
+    if (!doc) fn(...args);
+  };
+
+export const intro = quiet(clack.intro);
+export const outro = quiet(clack.outro);
+export const note = quiet(clack.note);
+export const cancel = quiet(clack.cancel);
+
+export const log = {
+  info: quiet(clack.log.info),
+  success: quiet(clack.log.success),
+  step: quiet(clack.log.step),
+  message: quiet(clack.log.message),
+  warn: (message: string) => {
+    if (!collect("warning", message)) clack.log.warn(message);
+  },
+  error: (message: string) => {
+    if (!collect("error", message)) clack.log.error(message);
+  },
+};
+
+const silentSpinner = {
+  start() {},
+  stop() {},
+  cancel() {},
+  error() {},
+  message() {},
+  clear() {},
+  isCancelled: false,
+};
+
+export function spinner(): ReturnType<typeof clack.spinner> {
+  return doc ? silentSpinner : clack.spinner();
+}
+
+export async function text(opts: clack.TextOptions): Promise<string | symbol> {
+  ask(opts.message);
+  return clack.text(opts);
+}
+
+export async function password(
+  opts: clack.PasswordOptions,
+): Promise<string | symbol> {
+  ask(opts.message);
+  return clack.password(opts);
+}
+
+export async function confirm(
+  opts: clack.ConfirmOptions,
+): Promise<boolean | symbol> {
+  ask(opts.message);
+  return clack.confirm(opts);
+}
+
+export async function select<Value>(
+  opts: clack.SelectOptions<Value>,
+): Promise<Value | symbol> {
+  ask(opts.message);
+  return clack.select(opts);
+}
+
+export { isCancel } from "@clack/prompts";
@@ -1,9 +1,9 @@
 import { existsSync } from "node:fs";
-import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { mkdtemp, mkdir, readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
-import { applyOverlay } from "./overlay.js";
+import { applyOverlay, resolveConflict } from "./overlay.js";
 
 async function tmpDir(): Promise<string> {
   return mkdtemp(join(tmpdir(), "cmssy-overlay-"));
@@ -21,6 +21,15 @@ describe("applyOverlay", () => {
     expect(report.skipped).toHaveLength(0);
   });
 
+  it("lists the files it generated for the manifest", async () => {
+    const dir = await tmpDir();
+    await writeFile(join(dir, "proxy.ts"), "// mine\n");
+    const report = await applyOverlay(dir);
+    const generated = report.generated.map((g) => g.template);
+    expect(generated).toContain("init/cmssy.config.ts");
+    expect(generated).not.toContain("init/proxy.ts");
+  });
+
   it("never introduces styling files into the host project", async () => {
     const dir = await tmpDir();
     await applyOverlay(dir);
@@ -29,12 +38,26 @@ describe("applyOverlay", () => {
     expect(existsSync(join(dir, "app", "layout.tsx"))).toBe(false);
   });
 
-  it("skips next.config.mjs when another next.config.* exists", async () => {
+  it("patches an existing next.config.* instead of adding next.config.mjs", async () => {
     const dir = await tmpDir();
     await writeFile(join(dir, "next.config.ts"), "export default {};\n");
     const report = await applyOverlay(dir);
-    expect(report.skipped).toContain("next.config.mjs");
+    expect(report.patched).toEqual(["next.config.ts"]);
     expect(existsSync(join(dir, "next.config.mjs"))).toBe(false);
+    expect(await readFile(join(dir, "next.config.ts"), "utf8")).toContain(
+      "assets.cmssy.io",
+    );
+  });
+
+  it("skips a next.config it can't read", async () => {
+    const dir = await tmpDir();
+    await writeFile(
+      join(dir, "next.config.js"),
+      'module.exports = require("./base");\n',
+    );
+    const report = await applyOverlay(dir);
+    expect(report.skipped).toContain("next.config.js");
+    expect(report.conflicts.map((c) => c.file)).not.toContain("next.config.js");
   });
 
   it("never clobbers an existing file", async () => {
@@ -48,7 +71,10 @@ describe("applyOverlay", () => {
 
   it("places overlay under src/ for a src-dir project, config files at root", async () => {
     const dir = await tmpDir();
-    await applyOverlay(dir, true);
+    const report = await applyOverlay(dir, true);
+    expect(report.written).toContain("src/cmssy.config.ts");
+    expect(report.written).toContain("src/cmssy/blocks.ts");
+    expect(report.written).toContain("next.config.mjs");
     expect(existsSync(join(dir, "src", "cmssy.config.ts"))).toBe(true);
     expect(existsSync(join(dir, "src", "cmssy", "blocks.ts"))).toBe(true);
     expect(existsSync(join(dir, "src", "app", "[[...path]]", "page.tsx"))).toBe(
@@ -58,4 +84,117 @@ describe("applyOverlay", () => {
     expect(existsSync(join(dir, ".env.example"))).toBe(true);
     expect(existsSync(join(dir, "src", "next.config.mjs"))).toBe(false);
   });
+
+  it("imports through the project's alias, or relatively without one", async () => {
+    const aliased = await tmpDir();
+    await writeFile(
+      join(aliased, "tsconfig.json"),
+      '{ "compilerOptions": { "paths": { "~/*": ["./src/*"] } } }',
+    );
+    await applyOverlay(aliased, true);
+    const page = await readFile(
+      join(aliased, "src", "app", "[[...path]]", "page.tsx"),
+      "utf8",
+    );
+    expect(page).toContain('from "~/cmssy.config"');
+    expect(page).toContain('from "~/cmssy/editor"');
+
+    const plain = await tmpDir();
+    await applyOverlay(plain);
+    expect(await readFile(join(plain, "proxy.ts"), "utf8")).toContain(
+      'from "./cmssy.config"',
+    );
+    expect(await readFile(join(plain, "cmssy", "blocks.ts"), "utf8")).toContain(
+      'from "../blocks/hero/block"',
+    );
+  });
+
+  it("writes the registry where the project config puts it", async () => {
+    const dir = await tmpDir();
+    const report = await applyOverlay(dir, false, {
+      blocksDir: join(dir, "components", "blocks"),
+      registryFile: join(dir, "lib", "cmssy-blocks.ts"),
+    });
+    expect(report.written).toContain("lib/cmssy-blocks.ts");
+    expect(existsSync(join(dir, "cmssy", "blocks.ts"))).toBe(false);
+    expect(
+      await readFile(join(dir, "lib", "cmssy-blocks.ts"), "utf8"),
+    ).toContain('from "../components/blocks/hero/block"');
+    expect(
+      await readFile(join(dir, "app", "[[...path]]", "page.tsx"), "utf8"),
+    ).toContain('import { blocks } from "../../lib/cmssy-blocks";');
+    expect(await readFile(join(dir, "cmssy", "editor.tsx"), "utf8")).toContain(
+      'import("../lib/cmssy-blocks")',
+    );
+  });
+});
+
+describe("resolveConflict", () => {
+  it("records a conflict for each differing file", async () => {
+    const dir = await tmpDir();
+    await writeFile(join(dir, "proxy.ts"), "// mine\n");
+    const report = await applyOverlay(dir);
+    expect(report.conflicts.map((c) => c.file)).toEqual(["proxy.ts"]);
+    expect(report.conflicts[0]!.template).toContain("export");
+  });
+
+  it("overwrites with the template", async () => {
+    const dir = await tmpDir();
+    await writeFile(join(dir, "proxy.ts"), "// mine\n");
+    const report = await applyOverlay(dir);
+    const conflict = report.conflicts[0]!;
+    await resolveConflict(report, conflict, "overwrite");
+    expect(await readFile(join(dir, "proxy.ts"), "utf8")).toBe(
+      conflict.template,
+    );
+    expect(report.skipped).not.toContain("proxy.ts");
+    expect(report.written).toContain("proxy.ts");
+    expect(report.conflicts).toHaveLength(0);
+    expect(report.generated.map((g) => g.template)).toContain("init/proxy.ts");
+  });
+
+  it("writes a sidecar and keeps the original", async () => {
+    const dir = await tmpDir();
+    await writeFile(join(dir, "proxy.ts"), "// mine\n");
+    const report = await applyOverlay(dir);
+    const conflict = report.conflicts[0]!;
+    await resolveConflict(report, conflict, "sidecar");
+    expect(await readFile(join(dir, "proxy.ts"), "utf8")).toBe("// mine\n");
+    expect(await readFile(join(dir, "proxy.ts.cmssy-new"), "utf8")).toBe(
+      conflict.template,
+    );
+    expect(report.written).toContain("proxy.ts.cmssy-new");
+    expect(report.skipped).toContain("proxy.ts");
+  });
+});
+
+describe("applyOverlay proxy / middleware", () => {
+  it("writes middleware.ts for Next 15", async () => {
+    const dir = await tmpDir();
+    await writeFile(
+      join(dir, "package.json"),
+      JSON.stringify({ dependencies: { next: "^15.2.0" } }),
+    );
+    const report = await applyOverlay(dir);
+    expect(report.written).toContain("middleware.ts");
+    expect(existsSync(join(dir, "proxy.ts"))).toBe(false);
+    expect(await readFile(join(dir, "middleware.ts"), "utf8")).toContain(
+      "export function middleware(",
+    );
+  });
+
+  it("wraps the app's existing middleware instead of skipping it", async () => {
+    const dir = await tmpDir();
+    await mkdir(join(dir, "src"), { recursive: true });
+    await writeFile(
+      join(dir, "src", "middleware.ts"),
+      "export function middleware() {}\n",
+    );
+    const report = await applyOverlay(dir, true);
+    expect(report.patched).toEqual(["src/middleware.ts"]);
+    expect(existsSync(join(dir, "src", "proxy.ts"))).toBe(false);
+    const out = await readFile(join(dir, "src", "middleware.ts"), "utf8");
+    expect(out).toContain("function appMiddleware() {}");
+    expect(out).toContain('import { cmssy } from "./cmssy.config";');
+  });
 });
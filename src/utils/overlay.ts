@@ -1,49 +1,329 @@
-import { existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
-import { writeFileSafe } from "./files.js";
+import { readFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { pathExists, readText, writeFileSafe, writeText } from "./files.js";
+import { manifestKey, type GeneratedFile } from "./manifest.js";
+import {
+  composeMiddleware,
+  findMiddlewareFiles,
+  loadedMiddleware,
+  renderMiddlewareTemplate,
+} from "./middleware.js";
+import { mountDraftRoute, scopeProxyMatcher } from "./mount.js";
+import { findNextConfig, patchNextConfig } from "./next-config.js";
+import { nextMajorVersion } from "./project.js";
+import { CATCH_ALL_DIR } from "./routes.js";
 import { collectFiles } from "./templates.js";
+import { importPath, loadImportConfig, type ImportConfig } from "./tsconfig.js";
 
 const ROOT_ONLY = new Set([".env.example", "next.config.mjs"]);
-const OTHER_NEXT_CONFIGS = [
-  "next.config.js",
-  "next.config.ts",
-  "next.config.cjs",
-];
 
+/** What init did with each file; every path is project-relative, posix-style. */
 export interface OverlayReport {
   written: string[];
   skipped: string[];
   unchanged: string[];
+  /** existing files init edited in place (next.config.*, proxy/middleware) */
+  patched: string[];
+  /** skipped files that differ from their template */
+  conflicts: Conflict[];
+  /** files now exactly as their template renders them, for the manifest */
+  generated: GeneratedFile[];
+}
+
+/** An existing project file that init left alone because it differs from the template. */
+export interface Conflict {
+  /** project-relative, as listed in the report */
+  file: string;
+  /** absolute */
+  path: string;
+  /** what init would have written */
+  template: string;
+  /** template path, as recorded in the manifest */
+  source: string;
+}
+
+export type ConflictAction = "keep" | "overwrite" | "sidecar";
+
+export const CONFLICT_ACTIONS: ConflictAction[] = [
+  "keep",
+  "overwrite",
+  "sidecar",
+];
+
+/** Suffix of the file written next to a conflicting one with the template's content. */
+export const SIDECAR_SUFFIX = ".cmssy-new";
+
+function destFor(rel: string, mount: string): string {
+  if (rel === "env.example") return ".env.example";
+  return mount && rel.startsWith(`app/${CATCH_ALL_DIR}/`)
+    ? `app${mount}/${rel.slice("app/".length)}`
+    : rel;
+}
+
+const TEMPLATE_IMPORT = /(\bfrom\s*|\bimport\s*\(\s*)(["'])@\/([^"']+)\2/g;
+
+export interface OverlayOptions {
+  /** URL path cmssy's catch-all is mounted under, e.g. `/marketing`; "" for the root */
+  mount?: string;
+  /** absolute; where the example block goes (`blocks/` under the source root by default) */
+  blocksDir?: string;
+  /** absolute; where the block registry goes (`cmssy/blocks.ts` under the source root by default) */
+  registryFile?: string;
 }
 
-function destFor(rel: string): string {
-  return rel === "env.example" ? ".env.example" : rel;
+const REGISTRY_TEMPLATE = "cmssy/blocks.ts";
+
+/** A module's import target: its path without the extension. */
+function modulePath(file: string): string {
+  return file.replace(/\.[cm]?[jt]sx?$/, "");
+}
+
+/**
+ * Templates import project files as `@/x`, meaning "x under the source root"
+ * (`@/blocks/x` meaning x under `blocksDir`, `@/cmssy/blocks` the registry).
+ * Re-point them through the project's own alias, or make them relative.
+ */
+export function rewriteTemplateImports(
+  content: string,
+  dest: string,
+  sourceRoot: string,
+  imports: Pick<ImportConfig, "aliases">,
+  targets: Pick<OverlayOptions, "blocksDir" | "registryFile"> = {},
+): string {
+  const blocksDir = targets.blocksDir ?? join(sourceRoot, "blocks");
+  const registryFile =
+    targets.registryFile ?? join(sourceRoot, REGISTRY_TEMPLATE);
+  return content.replace(
+    TEMPLATE_IMPORT,
+    (_match, lead: string, quote: string, rest: string) => {
+      const target =
+        rest === modulePath(REGISTRY_TEMPLATE)
+          ? modulePath(registryFile)
+          : rest.startsWith("blocks/")
+            ? join(blocksDir, rest.slice("blocks/".length))
+            : join(sourceRoot, rest);
+      return `${lead}${quote}${importPath(dest, target, imports)}${quote}`;
+    },
+  );
+}
+
+/** An init template rendered for one project, before anything is written. */
+export interface RenderedFile extends GeneratedFile {
+  /** project-relative, as listed in the report */
+  dest: string;
+}
+
+/** The template init renders as the project's proxy or middleware file. */
+export const MIDDLEWARE_TEMPLATE = "init/proxy.ts";
+
+/**
+ * Render every init template the way it lands in this project: imports
+ * through its aliases, under the mount, and the proxy template as the file
+ * the project's Next version loads (`proxy.ts`, or `middleware.ts` before
+ * Next 16).
+ */
+export function renderOverlay(
+  targetDir: string,
+  srcDir = false,
+  opts: OverlayOptions = {},
+): RenderedFile[] {
+  const imports = loadImportConfig(targetDir);
+  const sourceRoot = srcDir ? join(targetDir, "src") : targetDir;
+  const mount = opts.mount ?? "";
+  const targets = {
+    blocksDir: opts.blocksDir ?? join(sourceRoot, "blocks"),
+    registryFile: opts.registryFile ?? join(sourceRoot, REGISTRY_TEMPLATE),
+  };
+  const { blocksDir, registryFile } = targets;
+  const movedRegistry = registryFile !== join(sourceRoot, REGISTRY_TEMPLATE);
+
+  return collectFiles("init").map((file) => {
+    const template = `init/${file.rel}`;
+    const raw = readFileSync(file.abs, "utf8");
+    if (template === MIDDLEWARE_TEMPLATE) {
+      const loaded = loadedMiddleware(
+        findMiddlewareFiles(sourceRoot),
+        nextMajorVersion(targetDir),
+      );
+      const path = loaded.file ?? join(sourceRoot, `${loaded.kind}.ts`);
+      const content = renderMiddlewareTemplate(
+        scopeProxyMatcher(
+          rewriteTemplateImports(raw, path, sourceRoot, imports, targets),
+          mount,
+        ),
+        loaded.kind,
+      );
+      const dest = relative(sourceRoot, path).split(sep).join("/");
+      return { dest, path, template, content };
+    }
+    if (file.rel.startsWith("blocks/")) {
+      const path = join(blocksDir, file.rel.slice("blocks/".length));
+      const dest = relative(sourceRoot, path).split(sep).join("/");
+      const content = rewriteTemplateImports(
+        raw,
+        path,
+        sourceRoot,
+        imports,
+        targets,
+      );
+      return { dest, path, template, content };
+    }
+    if (file.rel === REGISTRY_TEMPLATE) {
+      const dest = relative(sourceRoot, registryFile).split(sep).join("/");
+      const content = rewriteTemplateImports(
+        raw,
+        registryFile,
+        sourceRoot,
+        imports,
+        targets,
+      );
+      return { dest, path: registryFile, template, content };
+    }
+    const dest = destFor(file.rel, mount);
+    const path =
+      srcDir && !ROOT_ONLY.has(dest)
+        ? join(targetDir, "src", dest)
+        : join(targetDir, dest);
+    let content = rewriteTemplateImports(
+      raw,
+      path,
+      sourceRoot,
+      imports,
+      targets,
+    );
+    if (dest === "cmssy/editor.tsx" && movedRegistry) {
+      // the editor loads the registry beside it, as `./blocks`
+      const specifier = importPath(path, modulePath(registryFile), imports);
+      content = content.replace(
+        /(\bimport\s*\(\s*)(["'])\.\/blocks\2/,
+        `$1$2${specifier}$2`,
+      );
+    }
+    if (dest === "app/api/draft/route.ts") {
+      content = mountDraftRoute(content, mount);
+    }
+    return { dest, path, template, content };
+  });
+}
+
+/**
+ * Write the rendered proxy/middleware, or wrap the app's existing one with
+ * the cmssy edit-mode logic.
+ */
+async function overlayMiddleware(
+  report: OverlayReport,
+  file: RenderedFile,
+  targetDir: string,
+  sourceRoot: string,
+  imports: ImportConfig,
+): Promise<void> {
+  const { path, template, content } = file;
+  const listed = manifestKey(targetDir, path);
+  if (!pathExists(path)) {
+    const result = await writeFileSafe(path, content);
+    report[result].push(listed);
+    if (result !== "skipped")
+      report.generated.push({ path, template, content });
+    return;
+  }
+
+  const current = await readText(path);
+  const composed = composeMiddleware(
+    current,
+    path,
+    importPath(path, join(sourceRoot, "cmssy.config"), imports),
+  );
+  if (current === content) {
+    report.unchanged.push(listed);
+    report.generated.push({ path, template, content });
+  } else if (composed !== null && composed !== current) {
+    await writeText(path, composed);
+    report.patched.push(listed);
+  } else {
+    // Unfamiliar shape, or already cmssy-aware but not the current template.
+    report.skipped.push(listed);
+    report.conflicts.push({
+      file: listed,
+      path,
+      template: content,
+      source: template,
+    });
+  }
 }
 
 /** Add the cmssy wiring + example block to an existing project, never clobbering. */
 export async function applyOverlay(
   targetDir: string,
   srcDir = false,
+  opts: OverlayOptions = {},
 ): Promise<OverlayReport> {
-  const report: OverlayReport = { written: [], skipped: [], unchanged: [] };
-
-  for (const file of collectFiles("init")) {
-    const dest = destFor(file.rel);
-    if (
-      dest === "next.config.mjs" &&
-      OTHER_NEXT_CONFIGS.some((f) => existsSync(join(targetDir, f)))
-    ) {
-      report.skipped.push(dest);
+  const report: OverlayReport = {
+    written: [],
+    skipped: [],
+    unchanged: [],
+    patched: [],
+    conflicts: [],
+    generated: [],
+  };
+  const imports = loadImportConfig(targetDir);
+  const sourceRoot = srcDir ? join(targetDir, "src") : targetDir;
+
+  for (const file of renderOverlay(targetDir, srcDir, opts)) {
+    const { dest, path, template, content } = file;
+    if (template === MIDDLEWARE_TEMPLATE) {
+      await overlayMiddleware(report, file, targetDir, sourceRoot, imports);
       continue;
     }
-    const content = readFileSync(file.abs, "utf8");
-    const full =
-      srcDir && !ROOT_ONLY.has(dest)
-        ? join(targetDir, "src", dest)
-        : join(targetDir, dest);
-    const result = await writeFileSafe(full, content);
-    report[result].push(dest);
+    const nextConfig =
+      dest === "next.config.mjs" ? findNextConfig(targetDir) : null;
+    if (nextConfig) {
+      // Merge the media host into the app's own config instead.
+      const result = await patchNextConfig(join(targetDir, nextConfig));
+      if (result === "patched") report.patched.push(nextConfig);
+      else if (result === "present") report.unchanged.push(nextConfig);
+      else report.skipped.push(nextConfig);
+      continue;
+    }
+    const listed = manifestKey(targetDir, path);
+    const result = await writeFileSafe(path, content);
+    report[result].push(listed);
+    if (result === "skipped") {
+      report.conflicts.push({
+        file: listed,
+        path,
+        template: content,
+        source: template,
+      });
+    } else {
+      report.generated.push({ path, template, content });
+    }
   }
 
   return report;
 }
+
+/**
+ * Settle one conflict: overwrite the file with the template, or write the
+ * template to a `.cmssy-new` sidecar next to it. Updates the report to match.
+ */
+export async function resolveConflict(
+  report: OverlayReport,
+  conflict: Conflict,
+  action: ConflictAction,
+): Promise<void> {
+  if (action === "keep") return;
+  if (action === "overwrite") {
+    await writeText(conflict.path, conflict.template);
+    report.skipped = report.skipped.filter((f) => f !== conflict.file);
+    report.written.push(conflict.file);
+    report.generated.push({
+      path: conflict.path,
+      template: conflict.source,
+      content: conflict.template,
+    });
+  } else {
+    await writeText(conflict.path + SIDECAR_SUFFIX, conflict.template);
+    report.written.push(conflict.file + SIDECAR_SUFFIX);
+  }
+  report.conflicts = report.conflicts.filter((c) => c !== conflict);
+}
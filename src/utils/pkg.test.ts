@@ -0,0 +1,164 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { project } from "../test/project.js";
+import {
+  addCommands,
+  detectPackageManager,
+  ensureDependencies,
+  isYarnBerry,
+  removeCommand,
+  removeDependencies,
+  setDependencyVersions,
+  usesPnp,
+} from "./pkg.js";
+
+const PNPM_AGENT = { npm_config_user_agent: "pnpm/9.1.0 npm/? node/v20.11.0" };
+
+describe("detectPackageManager", () => {
+  it("prefers the packageManager field, then a lockfile, then the user agent", async () => {
+    const pinned = await project({
+      "package.json": '{ "packageManager": "yarn@4.1.0+sha512.abc" }',
+      "package-lock.json": "{}",
+    });
+    expect(detectPackageManager(pinned, PNPM_AGENT)).toBe("yarn");
+
+    const locked = await project({
+      "package.json": "{}",
+      "bun.lock": "{}",
+    });
+    expect(detectPackageManager(locked, PNPM_AGENT)).toBe("bun");
+
+    const fresh = await project({ "package.json": "{}" });
+    expect(detectPackageManager(fresh, PNPM_AGENT)).toBe("pnpm");
+    expect(
+      detectPackageManager(fresh, {
+        npm_config_user_agent: "bun/1.1.0 npm/? node/v22.0.0",
+      }),
+    ).toBe("bun");
+    expect(detectPackageManager(fresh, {})).toBe("npm");
+  });
+
+  it("recognizes Yarn Berry before its first lockfile", async () => {
+    const dir = await project({
+      "package.json": "{}",
+      ".yarnrc.yml": "nodeLinker: node-modules\n",
+    });
+    expect(detectPackageManager(dir, {})).toBe("yarn");
+    expect(isYarnBerry(dir)).toBe(true);
+    expect(usesPnp(dir)).toBe(false);
+  });
+});
+
+describe("isYarnBerry / usesPnp", () => {
+  it("tells Yarn 1 from Berry and PnP from node_modules", async () => {
+    const classic = await project({
+      "package.json": "{}",
+      "yarn.lock": "# yarn lockfile v1\n",
+    });
+    expect(isYarnBerry(classic)).toBe(false);
+    expect(usesPnp(classic)).toBe(false);
+
+    const berry = await project({
+      "package.json": '{ "packageManager": "yarn@3.6.4" }',
+      "yarn.lock": "__metadata:\n  version: 6\n",
+    });
+    expect(isYarnBerry(berry)).toBe(true);
+    expect(usesPnp(berry)).toBe(true);
+
+    const loader = await project({ "package.json": "{}", ".pnp.cjs": "" });
+    expect(usesPnp(loader)).toBe(true);
+  });
+});
+
+describe("package.json edits", () => {
+  it("keeps tabs, key order, CRLF and sorted dependencies", async () => {
+    const original =
+      '{\r\n\t"name": "site",\r\n\t"dependencies": {\r\n\t\t"next": "15.1.0",\r\n\t\t"react": "19.0.0"\r\n\t},\r\n\t"scripts": {}\r\n}\r\n';
+    const dir = await project({ "package.json": original });
+    expect(
+      await ensureDependencies(dir, {
+        "@cmssy/next": "^0.5.6",
+        "@cmssy/react": "^0.5.6",
+      }),
+    ).toEqual(["@cmssy/next", "@cmssy/react"]);
+    expect(await readFile(join(dir, "package.json"), "utf8")).toBe(
+      '{\r\n\t"name": "site",\r\n\t"dependencies": {\r\n\t\t"@cmssy/next": "^0.5.6",\r\n\t\t"@cmssy/react": "^0.5.6",\r\n\t\t"next": "15.1.0",\r\n\t\t"react": "19.0.0"\r\n\t},\r\n\t"scripts": {}\r\n}\r\n',
+    );
+
+    await removeDependencies(dir, ["@cmssy/next", "@cmssy/react"]);
+    expect(await readFile(join(dir, "package.json"), "utf8")).toBe(original);
+  });
+
+  it("leaves an unsorted section's order alone and keeps devDependencies", async () => {
+    const dir = await project({
+      "package.json": JSON.stringify(
+        {
+          dependencies: { react: "19.0.0", next: "15.1.0" },
+          devDependencies: { "@cmssy/next": "^0.4.0" },
+        },
+        null,
+        4,
+      ),
+    });
+    expect(
+      await setDependencyVersions(dir, {
+        "@cmssy/next": "0.5.8",
+        "@cmssy/react": "0.5.8",
+      }),
+    ).toEqual([
+      { name: "@cmssy/next", from: "^0.4.0", to: "0.5.8", dev: true },
+      { name: "@cmssy/react", from: undefined, to: "0.5.8", dev: false },
+    ]);
+    expect(
+      JSON.parse(await readFile(join(dir, "package.json"), "utf8")),
+    ).toEqual({
+      dependencies: {
+        react: "19.0.0",
+        next: "15.1.0",
+        "@cmssy/react": "0.5.8",
+      },
+      devDependencies: { "@cmssy/next": "0.5.8" },
+    });
+    expect(await readFile(join(dir, "package.json"), "utf8")).toMatch(
+      /^{\n {4}"dependencies"/,
+    );
+  });
+});
+
+describe("addCommands / removeCommand", () => {
+  const deps = [
+    { name: "@cmssy/next", range: "^0.5.6", dev: false },
+    { name: "@cmssy/react", range: "^0.5.6", dev: true },
+  ];
+
+  it("adds just the given packages, split by section", async () => {
+    const dir = await project({ "package.json": "{}" });
+    expect(addCommands("pnpm", dir, deps)).toEqual([
+      { pm: "pnpm", args: ["add", "@cmssy/next@^0.5.6"], cwd: dir },
+      { pm: "pnpm", args: ["add", "-D", "@cmssy/react@^0.5.6"], cwd: dir },
+    ]);
+    expect(addCommands("npm", dir, deps.slice(0, 1))[0]!.args).toEqual([
+      "install",
+      "@cmssy/next@^0.5.6",
+    ]);
+    expect(removeCommand("yarn", dir, ["@cmssy/next"]).args).toEqual([
+      "remove",
+      "@cmssy/next",
+    ]);
+  });
+
+  it("scopes npm to the workspace from the root", async () => {
+    const root = await project({
+      "package.json": '{ "workspaces": ["apps/*"] }',
+      "apps/web/package.json": '{ "name": "web" }',
+    });
+    const web = join(root, "apps", "web");
+    expect(removeCommand("npm", web, ["@cmssy/next"])).toEqual({
+      pm: "npm",
+      args: ["uninstall", "@cmssy/next", "--workspace", "web"],
+      cwd: root,
+    });
+    expect(addCommands("pnpm", web, deps.slice(0, 1))[0]!.cwd).toBe(web);
+  });
+});
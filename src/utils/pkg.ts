@@ -1,18 +1,150 @@
 import { spawn } from "node:child_process";
-import { existsSync } from "node:fs";
-import { readFile, writeFile } from "node:fs/promises";
-import { join } from "node:path";
-import type { PackageJson } from "./project.js";
+import { existsSync, readFileSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+import type { FlagValue } from "./args.js";
+import { readText, writeText } from "./files.js";
+import { readPackageJson, type PackageJson } from "./project.js";
+import { findWorkspace } from "./workspace.js";
 
 export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
 
-export function detectPackageManager(cwd: string): PackageManager {
-  if (existsSync(join(cwd, "pnpm-lock.yaml"))) return "pnpm";
-  if (existsSync(join(cwd, "yarn.lock"))) return "yarn";
-  if (existsSync(join(cwd, "bun.lockb")) || existsSync(join(cwd, "bun.lock"))) {
+const PMS = new Set<PackageManager>(["npm", "pnpm", "yarn", "bun"]);
+
+function asPackageManager(name: string | undefined): PackageManager | null {
+  return name && PMS.has(name as PackageManager)
+    ? (name as PackageManager)
+    : null;
+}
+
+function lockfilePackageManager(dir: string): PackageManager | null {
+  if (existsSync(join(dir, "pnpm-lock.yaml"))) return "pnpm";
+  if (existsSync(join(dir, "yarn.lock"))) return "yarn";
+  if (existsSync(join(dir, "bun.lockb")) || existsSync(join(dir, "bun.lock"))) {
     return "bun";
   }
-  return "npm";
+  if (existsSync(join(dir, "package-lock.json"))) return "npm";
+  // Yarn Berry leaves its config and PnP loader before the first lockfile.
+  if (
+    existsSync(join(dir, ".yarnrc.yml")) ||
+    existsSync(join(dir, ".pnp.cjs"))
+  ) {
+    return "yarn";
+  }
+  return null;
+}
+
+/** corepack's `"packageManager": "pnpm@9.1.0+sha512..."`. */
+function packageManagerField(
+  dir: string,
+): { pm: PackageManager; version: string } | null {
+  const field = (readPackageJson(dir) as { packageManager?: string } | null)
+    ?.packageManager;
+  const m = /^([a-z]+)@(\d[^+\s]*)/.exec(field ?? "");
+  const pm = asPackageManager(m?.[1]);
+  return pm ? { pm, version: m![2]! } : null;
+}
+
+/** The package manager running us: `pnpm dlx`, `yarn dlx`, `bunx`, `npx`. */
+function userAgentPackageManager(
+  env: NodeJS.ProcessEnv,
+): PackageManager | null {
+  return asPackageManager(
+    /^([a-z]+)\//.exec(env.npm_config_user_agent ?? "")?.[1],
+  );
+}
+
+/**
+ * Which package manager a project uses. What the repo pins wins over what's
+ * running the CLI: the `packageManager` field, then a lockfile - the
+ * project's own, else its workspace root's - then the user agent of
+ * whatever launched cmssy, then pnpm for a pnpm workspace. npm by default.
+ */
+export function detectPackageManager(
+  cwd: string,
+  env: NodeJS.ProcessEnv = process.env,
+): PackageManager {
+  const ws = findWorkspace(cwd);
+  const dirs = ws && ws.root !== resolve(cwd) ? [cwd, ws.root] : [cwd];
+  for (const dir of dirs) {
+    const field = packageManagerField(dir);
+    if (field) return field.pm;
+  }
+  for (const dir of dirs) {
+    const pm = lockfilePackageManager(dir);
+    if (pm) return pm;
+  }
+  return userAgentPackageManager(env) ?? (ws?.tool === "pnpm" ? "pnpm" : "npm");
+}
+
+/** The directory that holds the lockfile and yarn config: the workspace root, if any. */
+function installRoot(projectDir: string): string {
+  return findWorkspace(projectDir)?.root ?? projectDir;
+}
+
+/**
+ * Yarn 2+ ("Berry") rather than Yarn 1: pinned with `packageManager`, or
+ * recognizable by `.yarnrc.yml` or its lockfile's `__metadata` header.
+ */
+export function isYarnBerry(projectDir: string): boolean {
+  const root = installRoot(projectDir);
+  const field = packageManagerField(projectDir) ?? packageManagerField(root);
+  if (field?.pm === "yarn") return Number(field.version.split(".")[0]) >= 2;
+  if (existsSync(join(root, ".yarnrc.yml"))) return true;
+  const lock = join(root, "yarn.lock");
+  return existsSync(lock) && /^__metadata:/m.test(readFileSync(lock, "utf8"));
+}
+
+/**
+ * Whether packages resolve through Yarn Plug'n'Play instead of
+ * node_modules: a `.pnp.cjs` loader, or Berry's default `nodeLinker`.
+ */
+export function usesPnp(projectDir: string): boolean {
+  const root = installRoot(projectDir);
+  if (existsSync(join(root, ".pnp.cjs")) || existsSync(join(root, ".pnp.js"))) {
+    return true;
+  }
+  if (!isYarnBerry(projectDir)) return false;
+  const rc = join(root, ".yarnrc.yml");
+  const linker = existsSync(rc)
+    ? /^nodeLinker:\s*["']?([\w-]+)/m.exec(readFileSync(rc, "utf8"))?.[1]
+    : undefined;
+  return (linker ?? "pnp") === "pnp";
+}
+
+const DEPENDENCY_SECTIONS = ["dependencies", "devDependencies"] as const;
+
+/**
+ * Rewrite package.json through `edit`, keeping what JSON.stringify would
+ * lose: its indentation, line endings and final newline. Key order is kept
+ * by the parse; dependency sections that were sorted stay sorted.
+ */
+async function editPackageJson(
+  cwd: string,
+  edit: (pkg: PackageJson) => boolean,
+): Promise<void> {
+  const p = join(cwd, "package.json");
+  const content = await readText(p);
+  const pkg = JSON.parse(content) as PackageJson;
+  const sorted = new Set(
+    DEPENDENCY_SECTIONS.filter((s) => {
+      const keys = Object.keys(pkg[s] ?? {});
+      return keys.every((k, i) => i === 0 || keys[i - 1]! <= k);
+    }),
+  );
+  if (!edit(pkg)) return;
+  for (const section of sorted) {
+    const deps = pkg[section];
+    if (deps) {
+      pkg[section] = Object.fromEntries(
+        Object.entries(deps).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+      );
+    }
+  }
+  const indent = /^[ \t]+(?=")/m.exec(content)?.[0] ?? 2;
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let out = JSON.stringify(pkg, null, indent);
+  if (/\n\s*$/.test(content)) out += "\n";
+  await writeText(p, out.replace(/\n/g, eol));
 }
 
 /** Merge deps into package.json without overwriting versions already pinned. */
@@ -20,22 +152,86 @@ export async function ensureDependencies(
   cwd: string,
   deps: Record<string, string>,
 ): Promise<string[]> {
-  const p = join(cwd, "package.json");
-  const pkg = JSON.parse(await readFile(p, "utf8")) as PackageJson;
-  pkg.dependencies ??= {};
   const added: string[] = [];
-  for (const [name, version] of Object.entries(deps)) {
-    if (!pkg.dependencies[name] && !pkg.devDependencies?.[name]) {
-      pkg.dependencies[name] = version;
-      added.push(name);
+  await editPackageJson(cwd, (pkg) => {
+    for (const [name, version] of Object.entries(deps)) {
+      if (!pkg.dependencies?.[name] && !pkg.devDependencies?.[name]) {
+        (pkg.dependencies ??= {})[name] = version;
+        added.push(name);
+      }
     }
-  }
-  if (added.length) {
-    await writeFile(p, JSON.stringify(pkg, null, 2) + "\n", "utf8");
-  }
+    return added.length > 0;
+  });
   return added;
 }
 
+export interface DependencyChange {
+  name: string;
+  /** the range that was declared, if any */
+  from?: string;
+  to: string;
+  /** declared in devDependencies */
+  dev: boolean;
+}
+
+/**
+ * What setDependencyVersions would change, without writing: deps at exact
+ * ranges, in whichever section already declares them (dependencies
+ * otherwise).
+ */
+export function dependencyChanges(
+  pkg: PackageJson,
+  deps: Record<string, string>,
+): DependencyChange[] {
+  const changes: DependencyChange[] = [];
+  for (const [name, to] of Object.entries(deps)) {
+    const dev = Boolean(
+      pkg.devDependencies?.[name] && !pkg.dependencies?.[name],
+    );
+    const from = (dev ? pkg.devDependencies : pkg.dependencies)?.[name];
+    if (from !== to) changes.push({ name, from, to, dev });
+  }
+  return changes;
+}
+
+/** Set deps to exact ranges in package.json. Returns what changed. */
+export async function setDependencyVersions(
+  cwd: string,
+  deps: Record<string, string>,
+): Promise<DependencyChange[]> {
+  let changes: DependencyChange[] = [];
+  await editPackageJson(cwd, (pkg) => {
+    changes = dependencyChanges(pkg, deps);
+    for (const c of changes) {
+      (c.dev ? (pkg.devDependencies ??= {}) : (pkg.dependencies ??= {}))[
+        c.name
+      ] = c.to;
+    }
+    return changes.length > 0;
+  });
+  return changes;
+}
+
+/** Drop deps from dependencies and devDependencies. Returns the ones removed. */
+export async function removeDependencies(
+  cwd: string,
+  names: string[],
+): Promise<string[]> {
+  const removed: string[] = [];
+  await editPackageJson(cwd, (pkg) => {
+    for (const name of names) {
+      for (const section of [pkg.dependencies, pkg.devDependencies]) {
+        if (section && name in section) {
+          delete section[name];
+          if (!removed.includes(name)) removed.push(name);
+        }
+      }
+    }
+    return removed.length > 0;
+  });
+  return removed;
+}
+
 export function run(
   command: string,
   args: string[],
@@ -52,6 +248,116 @@ export function run(
   });
 }
 
+/** `--pm` when it names a known package manager, else the detected one. */
+export function choosePackageManager(
+  flag: FlagValue | undefined,
+  cwd: string,
+): PackageManager {
+  return (
+    asPackageManager(typeof flag === "string" ? flag : undefined) ??
+    detectPackageManager(cwd)
+  );
+}
+
 export function installArgs(pm: PackageManager): string[] {
   return pm === "yarn" ? [] : ["install"];
 }
+
+export interface InstallCommand {
+  pm: PackageManager;
+  args: string[];
+  /** where to run it: the project, or its workspace root */
+  cwd: string;
+}
+
+/**
+ * How to install a project's deps. Inside a workspace that's from the root,
+ * scoped to the project where the package manager can (yarn installs the
+ * whole workspace).
+ */
+export function installCommand(
+  pm: PackageManager,
+  projectDir: string,
+): InstallCommand {
+  const ws = findWorkspace(projectDir);
+  if (!ws || ws.root === resolve(projectDir)) {
+    return { pm, args: installArgs(pm), cwd: projectDir };
+  }
+  const name = readPackageJson(projectDir)?.name;
+  const scope =
+    !name || pm === "yarn"
+      ? []
+      : pm === "npm"
+        ? ["--workspace", name]
+        : ["--filter", name];
+  return { pm, args: [...installArgs(pm), ...scope], cwd: ws.root };
+}
+
+/** The command for messages: `` `pnpm install --filter web` (from ../..) ``. */
+export function describeInstall(cmd: InstallCommand, from: string): string {
+  const line = `\`${[cmd.pm, ...cmd.args].join(" ")}\``;
+  return resolve(cmd.cwd) === resolve(from)
+    ? line
+    : `${line} (from ${relative(from, cmd.cwd) || "."})`;
+}
+
+/**
+ * Where a command that changes one project's deps runs. npm wants the
+ * workspace root and `--workspace`; the others act on the package they're
+ * run in.
+ */
+function scoped(
+  pm: PackageManager,
+  projectDir: string,
+  args: string[],
+): InstallCommand {
+  const ws = findWorkspace(projectDir);
+  const name = readPackageJson(projectDir)?.name;
+  if (pm === "npm" && ws && ws.root !== resolve(projectDir) && name) {
+    return { pm, args: [...args, "--workspace", name], cwd: ws.root };
+  }
+  return { pm, args, cwd: projectDir };
+}
+
+/**
+ * `pm add` for just these packages - one command for dependencies and one
+ * for devDependencies - instead of editing package.json and installing
+ * everything.
+ */
+export function addCommands(
+  pm: PackageManager,
+  projectDir: string,
+  deps: Array<{ name: string; range: string; dev: boolean }>,
+): InstallCommand[] {
+  const verb = pm === "npm" ? "install" : "add";
+  return [false, true].flatMap((dev) => {
+    const specs = deps
+      .filter((d) => d.dev === dev)
+      .map((d) => `${d.name}@${d.range}`);
+    if (!specs.length) return [];
+    return [scoped(pm, projectDir, [verb, ...(dev ? ["-D"] : []), ...specs])];
+  });
+}
+
+/** `pm remove` for just these packages. */
+export function removeCommand(
+  pm: PackageManager,
+  projectDir: string,
+  names: string[],
+): InstallCommand {
+  return scoped(pm, projectDir, [
+    pm === "npm" ? "uninstall" : "remove",
+    ...names,
+  ]);
+}
+
+/** The deps of `names` package.json declares, with their range and section. */
+export function declaredDependencies(
+  pkg: PackageJson | null,
+  names: string[],
+): Array<{ name: string; range: string; dev: boolean }> {
+  return names.flatMap((name) => {
+    const range = pkg?.dependencies?.[name] ?? pkg?.devDependencies?.[name];
+    return range ? [{ name, range, dev: !pkg?.dependencies?.[name] }] : [];
+  });
+}
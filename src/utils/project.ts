@@ -59,3 +59,28 @@ export function detectProject(cwd: string): ProjectInfo {
     isNextAppRouter: hasNext && appDir !== null,
   };
 }
+
+/**
+ * Major version of Next.js the project runs: the installed package when
+ * node_modules has it, else the first number of the declared range. null
+ * for tags like "latest" or "canary".
+ */
+export function nextMajorVersion(cwd: string): number | null {
+  const installed = join(cwd, "node_modules", "next", "package.json");
+  let version: string | undefined;
+  if (existsSync(installed)) {
+    try {
+      version = (
+        JSON.parse(readFileSync(installed, "utf8")) as PackageJson & {
+          version?: string;
+        }
+      ).version;
+    } catch {
+      // fall back to the declared range
+    }
+  }
+  const pkg = readPackageJson(cwd);
+  version ??= pkg?.dependencies?.next ?? pkg?.devDependencies?.next;
+  const m = version ? /(\d+)/.exec(version) : null;
+  return m ? Number(m[1]) : null;
+}
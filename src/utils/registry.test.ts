@@ -2,20 +2,55 @@ import { mkdtemp, readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
-import { registerBlock } from "./registry.js";
+import {
+  moveBlock,
+  parseRegistry,
+  readRegistry,
+  registerBlock,
+  RegistryError,
+  renameRegisteredBlock,
+  unregisterBlock,
+} from "./registry.js";
 
 const SEED = `import { heroBlock } from "@/blocks/hero/block";
 
 export const blocks = [heroBlock];
 `;
 
-async function seed(): Promise<string> {
+async function seed(content = SEED): Promise<string> {
   const dir = await mkdtemp(join(tmpdir(), "cmssy-reg-"));
   const f = join(dir, "blocks.ts");
-  await writeFile(f, SEED);
+  await writeFile(f, content);
   return f;
 }
 
+describe("parseRegistry", () => {
+  it("reads named imports and array entries, including spreads", () => {
+    const r = parseRegistry(
+      'import {\n  heroBlock,\n  ctaBlock as cta,\n} from "@/blocks/hero/block";\n\nexport const blocks = [heroBlock, cta, ...shared] as const;\n',
+    );
+    expect(r.imports).toEqual([
+      {
+        local: "heroBlock",
+        imported: "heroBlock",
+        specifier: "@/blocks/hero/block",
+        line: 2,
+      },
+      {
+        local: "cta",
+        imported: "ctaBlock",
+        specifier: "@/blocks/hero/block",
+        line: 3,
+      },
+    ]);
+    expect(r.entries.map((e) => [e.name, e.spread])).toEqual([
+      ["heroBlock", false],
+      ["cta", false],
+      ["shared", true],
+    ]);
+  });
+});
+
 describe("registerBlock", () => {
   it("adds an import and array entry", async () => {
     const f = await seed();
@@ -29,6 +64,18 @@ describe("registerBlock", () => {
     );
   });
 
+  it("imports through the given alias config, or relatively", async () => {
+    const f = await seed();
+    const base = join(f, "..", "..");
+    await registerBlock(f, "a", "a", {
+      aliases: [{ prefix: "~/", targets: [base] }],
+    });
+    await registerBlock(f, "b", "b", { aliases: [] });
+    const out = await readFile(f, "utf8");
+    expect(out).toContain('import { aBlock } from "~/blocks/a/block";');
+    expect(out).toContain('import { bBlock } from "../blocks/b/block";');
+  });
+
   it("is idempotent", async () => {
     const f = await seed();
     await registerBlock(f, "featureGrid", "feature-grid");
@@ -43,7 +90,7 @@ describe("registerBlock", () => {
     await writeFile(f, "export const blocks=[\n  heroBlock,\n];\n");
     expect(await registerBlock(f, "featureGrid", "feature-grid")).toBe(true);
     const out = await readFile(f, "utf8");
-    expect(out).toContain("heroBlock, featureGridBlock");
+    expect(out).toContain("[\n  heroBlock,\n  featureGridBlock,\n]");
     expect(out).toContain(
       'import { featureGridBlock } from "@/blocks/feature-grid/block";',
     );
@@ -72,6 +119,77 @@ describe("registerBlock", () => {
     expect(out).toContain("[heroBlock, featureGridBlock]");
   });
 
+  it("inserts after a multi-line import", async () => {
+    const f = await seed(
+      'import {\n  heroBlock,\n  ctaBlock,\n} from "@/blocks/shared";\n\nexport const blocks = [heroBlock, ctaBlock];\n',
+    );
+    await registerBlock(f, "featureGrid", "feature-grid");
+    expect(await readFile(f, "utf8")).toBe(
+      'import {\n  heroBlock,\n  ctaBlock,\n} from "@/blocks/shared";\nimport { featureGridBlock } from "@/blocks/feature-grid/block";\n\nexport const blocks = [heroBlock, ctaBlock, featureGridBlock];\n',
+    );
+  });
+
+  it.each([
+    ["as const", "export const blocks = [heroBlock] as const;\n"],
+    [
+      "satisfies",
+      "export const blocks = [heroBlock] satisfies BlockDefinition[];\n",
+    ],
+    ["a spread", "export const blocks = [...sharedBlocks, heroBlock];\n"],
+  ])("handles %s", async (_label, registry) => {
+    const f = await seed(registry);
+    await registerBlock(f, "featureGrid", "feature-grid");
+    const out = await readFile(f, "utf8");
+    expect(out).toContain("heroBlock, featureGridBlock]");
+    expect(out).toMatch(/^import \{ featureGridBlock \}/);
+  });
+
+  it("is not fooled by a `]` in a comment", async () => {
+    const f = await seed(
+      "export const blocks = [\n  heroBlock, // see [docs]\n  ctaBlock, // ]\n];\n",
+    );
+    await registerBlock(f, "featureGrid", "feature-grid");
+    expect(await readFile(f, "utf8")).toContain(
+      "  ctaBlock, // ]\n  featureGridBlock,\n];",
+    );
+  });
+
+  it("puts the separator before a trailing line comment", async () => {
+    const f = await seed("export const blocks = [\n  heroBlock // main\n];\n");
+    await registerBlock(f, "featureGrid", "feature-grid");
+    expect(await readFile(f, "utf8")).toContain(
+      "  heroBlock, // main\n  featureGridBlock\n];",
+    );
+  });
+
+  it("follows a relative re-export to the real registry", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-reg-"));
+    const f = join(dir, "blocks.ts");
+    const shared = join(dir, "shared.ts");
+    await writeFile(f, 'export { blocks } from "./shared";\n');
+    await writeFile(shared, SEED);
+    await registerBlock(f, "featureGrid", "feature-grid");
+    expect(await readFile(f, "utf8")).toBe(
+      'export { blocks } from "./shared";\n',
+    );
+    expect(await readFile(shared, "utf8")).toContain(
+      "[heroBlock, featureGridBlock]",
+    );
+    expect(readRegistry(f).file).toBe(shared);
+  });
+
+  it("points at the line of an unsupported shape", async () => {
+    const f = await seed(
+      'import { heroBlock } from "@/blocks/hero/block";\n\nexport const blocks = makeBlocks(heroBlock);\n',
+    );
+    const err = await registerBlock(f, "featureGrid", "feature-grid").catch(
+      (e: unknown) => e,
+    );
+    expect(err).toBeInstanceOf(RegistryError);
+    expect((err as RegistryError).line).toBe(3);
+    expect((err as Error).message).toContain(`${f}:3`);
+  });
+
   it("throws (without writing) when the blocks array is missing", async () => {
     const dir = await mkdtemp(join(tmpdir(), "cmssy-reg-"));
     const f = join(dir, "blocks.ts");
@@ -83,3 +201,153 @@ describe("registerBlock", () => {
     expect(await readFile(f, "utf8")).toBe(original);
   });
 });
+
+describe("unregisterBlock", () => {
+  it("removes the import and array entry", async () => {
+    const f = await seed();
+    await registerBlock(f, "featureGrid", "feature-grid");
+    expect(await unregisterBlock(f, "featureGrid")).toBe(true);
+    expect(await readFile(f, "utf8")).toBe(SEED);
+  });
+
+  it("removes a first entry and an entry on its own line", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-reg-"));
+    const f = join(dir, "blocks.ts");
+    await writeFile(f, "export const blocks = [aBlock, heroBlock];\n");
+    await unregisterBlock(f, "a");
+    expect(await readFile(f, "utf8")).toBe(
+      "export const blocks = [heroBlock];\n",
+    );
+
+    await writeFile(
+      f,
+      "export const blocks = [\n  heroBlock,\n  aBlock,\n];\n",
+    );
+    await unregisterBlock(f, "a");
+    expect(await readFile(f, "utf8")).toBe(
+      "export const blocks = [\n  heroBlock,\n];\n",
+    );
+  });
+
+  it("removes a middle entry of a multi-line array with its comment", async () => {
+    const f = await seed(
+      "export const blocks = [\n  heroBlock,\n  aBlock, // old\n  ctaBlock,\n];\n",
+    );
+    await unregisterBlock(f, "a");
+    expect(await readFile(f, "utf8")).toBe(
+      "export const blocks = [\n  heroBlock,\n  ctaBlock,\n];\n",
+    );
+  });
+
+  it("removes one specifier from a multi-line import", async () => {
+    const f = await seed(
+      'import {\n  aBlock,\n  bBlock,\n} from "./shared";\n\nexport const blocks = [aBlock, bBlock] as const;\n',
+    );
+    await unregisterBlock(f, "a");
+    expect(await readFile(f, "utf8")).toBe(
+      'import {\n  bBlock,\n} from "./shared";\n\nexport const blocks = [bBlock] as const;\n',
+    );
+  });
+
+  it("keeps other specifiers of a shared import", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cmssy-reg-"));
+    const f = join(dir, "blocks.ts");
+    await writeFile(
+      f,
+      'import { aBlock, bBlock } from "./shared";\n\nexport const blocks = [aBlock, bBlock];\n',
+    );
+    await unregisterBlock(f, "a");
+    const out = await readFile(f, "utf8");
+    expect(out).toContain('import { bBlock } from "./shared";');
+    expect(out).toContain("[bBlock]");
+  });
+
+  it("removes a block imported under an alias", async () => {
+    const f = await seed(
+      'import { heroBlock } from "@/blocks/hero/block";\nimport { pricingBlock as pricing } from "@/blocks/pricing/block";\n\nexport const blocks = [heroBlock, pricing];\n',
+    );
+    expect(await unregisterBlock(f, "pricing")).toBe(true);
+    expect(await readFile(f, "utf8")).toBe(SEED);
+  });
+
+  it("returns false when the block is not registered", async () => {
+    const f = await seed();
+    expect(await unregisterBlock(f, "featureGrid")).toBe(false);
+    expect(await readFile(f, "utf8")).toBe(SEED);
+  });
+});
+
+describe("renameRegisteredBlock", () => {
+  it("renames the import, its path and the array entry", async () => {
+    const f = await seed();
+    expect(
+      await renameRegisteredBlock(
+        f,
+        { camel: "hero", type: "hero" },
+        { camel: "landingHero", type: "landing-hero" },
+      ),
+    ).toBe(true);
+    const out = await readFile(f, "utf8");
+    expect(out).toContain(
+      'import { landingHeroBlock } from "@/blocks/landing-hero/block";',
+    );
+    expect(out).toContain("export const blocks = [landingHeroBlock];");
+  });
+
+  it("renames the imported name of an aliased import", async () => {
+    const f = await seed(
+      'import { heroBlock as hero } from "@/blocks/hero/block";\n\nexport const blocks = [hero];\n',
+    );
+    await renameRegisteredBlock(
+      f,
+      { camel: "hero", type: "hero" },
+      { camel: "landingHero", type: "landing-hero" },
+    );
+    expect(await readFile(f, "utf8")).toBe(
+      'import { landingHeroBlock as hero } from "@/blocks/landing-hero/block";\n\nexport const blocks = [hero];\n',
+    );
+    // registering it again sees the alias instead of adding a second entry
+    expect(await registerBlock(f, "landingHero", "landing-hero")).toBe(false);
+  });
+});
+
+describe("moveBlock", () => {
+  const THREE =
+    "export const blocks = [\n  aBlock,\n  bBlock, // keep\n  cBlock,\n];\n";
+
+  it("moves an entry before another, keeping the layout", async () => {
+    const f = await seed(THREE);
+    expect(await moveBlock(f, "c", { before: "a" })).toBe(true);
+    expect(await readFile(f, "utf8")).toBe(
+      "export const blocks = [\n  cBlock,\n  aBlock, // keep\n  bBlock,\n];\n",
+    );
+  });
+
+  it("moves to the end and reports no-ops", async () => {
+    const f = await seed("export const blocks = [aBlock, bBlock];\n");
+    expect(await moveBlock(f, "a", "last")).toBe(true);
+    expect(await readFile(f, "utf8")).toBe(
+      "export const blocks = [bBlock, aBlock];\n",
+    );
+    expect(await moveBlock(f, "a", { after: "b" })).toBe(false);
+  });
+
+  it("throws for an unknown entry", async () => {
+    const f = await seed(THREE);
+    await expect(moveBlock(f, "x", "first")).rejects.toThrow(RegistryError);
+  });
+
+  it("finds blocks imported under an alias", async () => {
+    const f = await seed(
+      'import { heroBlock as hero } from "@/blocks/hero/block";\nimport { pricingBlock as pricing } from "@/blocks/pricing/block";\nimport { faqBlock } from "@/blocks/faq/block";\n\nexport const blocks = [hero, faqBlock, pricing];\n',
+    );
+    expect(await moveBlock(f, "pricing", { before: "hero" })).toBe(true);
+    expect(await readFile(f, "utf8")).toContain(
+      "export const blocks = [pricing, hero, faqBlock];",
+    );
+    expect(await moveBlock(f, "faq", { before: "hero" })).toBe(true);
+    expect(await readFile(f, "utf8")).toContain(
+      "export const blocks = [pricing, faqBlock, hero];",
+    );
+  });
+});
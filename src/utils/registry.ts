@@ -1,48 +1,428 @@
-import { readFile, writeFile } from "node:fs/promises";
+import { existsSync, statSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import ts from "typescript";
+import { lineOf, parseSource, unwrapExpression } from "./ast.js";
+import {
+  appendEdits,
+  applyEdits,
+  lineStart,
+  removalEdit,
+  type Edit,
+} from "./edits.js";
+import { pathExists, readTextSync, writeText } from "./files.js";
+import { importPath, type ImportConfig } from "./tsconfig.js";
+
+export interface RegistryImport {
+  /** binding name in the registry */
+  local: string;
+  /** exported name in the block module (differs from local with `as`) */
+  imported: string;
+  specifier: string;
+  line: number;
+}
+
+export interface RegistryEntry {
+  name: string;
+  /** `...sharedBlocks` */
+  spread: boolean;
+  line: number;
+}
+
+export interface ParsedRegistry {
+  imports: RegistryImport[];
+  entries: RegistryEntry[];
+}
+
+/** A registry shape the editor can't handle, pinned to the offending line. */
+export class RegistryError extends Error {
+  constructor(
+    readonly file: string,
+    readonly line: number,
+    message: string,
+  ) {
+    super(`${file}:${line} - ${message}`);
+    this.name = "RegistryError";
+  }
+}
+
+interface Located {
+  file: string;
+  source: string;
+  sf: ts.SourceFile;
+  array: ts.ArrayLiteralExpression;
+}
+
+const MODULE_SUFFIXES = ["", ".ts", ".tsx", ".js", "/index.ts", "/index.tsx"];
+const MAX_REEXPORT_DEPTH = 5;
+
+function isDirectory(p: string): boolean {
+  return existsSync(p) && statSync(p).isDirectory();
+}
+
+function resolveRelative(from: string, specifier: string): string | null {
+  const base = resolve(dirname(from), specifier);
+  for (const suffix of MODULE_SUFFIXES) {
+    const candidate = base + suffix;
+    if (pathExists(candidate) && !isDirectory(candidate)) return candidate;
+  }
+  return null;
+}
+
+function findBlocksDeclaration(
+  sf: ts.SourceFile,
+): ts.VariableDeclaration | undefined {
+  for (const stmt of sf.statements) {
+    if (!ts.isVariableStatement(stmt)) continue;
+    const decl = stmt.declarationList.declarations.find(
+      (d) => ts.isIdentifier(d.name) && d.name.text === "blocks",
+    );
+    if (decl) return decl;
+  }
+  return undefined;
+}
+
+/** `export { blocks } from "./x"` / `export * from "./x"`, if the file has one. */
+function findReexport(sf: ts.SourceFile): ts.ExportDeclaration | undefined {
+  return sf.statements.find(
+    (stmt): stmt is ts.ExportDeclaration =>
+      ts.isExportDeclaration(stmt) &&
+      stmt.moduleSpecifier !== undefined &&
+      (!stmt.exportClause ||
+        (ts.isNamedExports(stmt.exportClause) &&
+          stmt.exportClause.elements.some((e) => e.name.text === "blocks"))),
+  );
+}
+
+/**
+ * Find the `blocks` array a registry exports, following relative re-exports
+ * (`export { blocks } from "./shared"`) to the file that declares it.
+ */
+function locate(file: string, depth = 0): Located {
+  const source = readTextSync(file);
+  const sf = parseSource(file, source);
+  const decl = findBlocksDeclaration(sf);
+
+  if (!decl) {
+    const reexport = findReexport(sf);
+    if (reexport && ts.isStringLiteral(reexport.moduleSpecifier!)) {
+      const specifier = reexport.moduleSpecifier.text;
+      const target = specifier.startsWith(".")
+        ? resolveRelative(file, specifier)
+        : null;
+      if (!target || depth >= MAX_REEXPORT_DEPTH) {
+        throw new RegistryError(
+          file,
+          lineOf(sf, reexport),
+          `blocks is re-exported from "${specifier}", which could not be resolved to a local file - edit it there.`,
+        );
+      }
+      return locate(target, depth + 1);
+    }
+    throw new RegistryError(
+      file,
+      1,
+      "no `export const blocks = [...]` declaration found.",
+    );
+  }
+
+  const init = decl.initializer && unwrapExpression(decl.initializer);
+  if (!init || !ts.isArrayLiteralExpression(init)) {
+    throw new RegistryError(
+      file,
+      lineOf(sf, decl),
+      "`blocks` must be initialized with an array literal (`[a, b]`, optionally `as const` / `satisfies`).",
+    );
+  }
+  return { file, source, sf, array: init };
+}
+
+function collectImports(sf: ts.SourceFile): RegistryImport[] {
+  const imports: RegistryImport[] = [];
+  for (const stmt of sf.statements) {
+    if (
+      ts.isImportDeclaration(stmt) &&
+      ts.isStringLiteral(stmt.moduleSpecifier) &&
+      stmt.importClause?.namedBindings &&
+      ts.isNamedImports(stmt.importClause.namedBindings)
+    ) {
+      for (const el of stmt.importClause.namedBindings.elements) {
+        imports.push({
+          local: el.name.text,
+          imported: (el.propertyName ?? el.name).getText(sf),
+          specifier: stmt.moduleSpecifier.text,
+          line: lineOf(sf, el),
+        });
+      }
+    }
+  }
+  return imports;
+}
+
+function collectEntries(
+  sf: ts.SourceFile,
+  array: ts.ArrayLiteralExpression,
+): RegistryEntry[] {
+  const entries: RegistryEntry[] = [];
+  for (const el of array.elements) {
+    const spread = ts.isSpreadElement(el);
+    const expr = spread ? el.expression : el;
+    if (ts.isIdentifier(expr)) {
+      entries.push({ name: expr.text, spread, line: lineOf(sf, el) });
+    }
+  }
+  return entries;
+}
+
+/** Read the named imports and `export const blocks = [...]` entries of a registry. */
+export function parseRegistry(
+  source: string,
+  fileName = "blocks.ts",
+): ParsedRegistry {
+  const sf = parseSource(fileName, source);
+  const decl = findBlocksDeclaration(sf);
+  const init = decl?.initializer && unwrapExpression(decl.initializer);
+  return {
+    imports: collectImports(sf),
+    entries:
+      init && ts.isArrayLiteralExpression(init) ? collectEntries(sf, init) : [],
+  };
+}
+
+/**
+ * Parse the registry at `blocksFile`, following re-exports. `file` is where
+ * the array actually lives (relative block imports resolve against it).
+ * Throws a RegistryError for shapes it can't read.
+ */
+export function readRegistry(
+  blocksFile: string,
+): ParsedRegistry & { file: string } {
+  const { file, sf, array } = locate(blocksFile);
+  return {
+    file,
+    imports: collectImports(sf),
+    entries: collectEntries(sf, array),
+  };
+}
+
+/**
+ * The import binding a block's `token` export, by local name or, for
+ * `import { heroBlock as hero }`, by the name it's imported under.
+ */
+function findImportElement(
+  sf: ts.SourceFile,
+  token: string,
+): {
+  decl: ts.ImportDeclaration;
+  named: ts.NamedImports;
+  index: number;
+  /** the name the registry uses */
+  local: string;
+} | null {
+  for (const stmt of sf.statements) {
+    if (
+      !ts.isImportDeclaration(stmt) ||
+      !stmt.importClause?.namedBindings ||
+      !ts.isNamedImports(stmt.importClause.namedBindings)
+    ) {
+      continue;
+    }
+    const named = stmt.importClause.namedBindings;
+    const index = named.elements.findIndex(
+      (e) => e.name.text === token || e.propertyName?.text === token,
+    );
+    if (index !== -1) {
+      return {
+        decl: stmt,
+        named,
+        index,
+        local: named.elements[index]!.name.text,
+      };
+    }
+  }
+  return null;
+}
+
+function entryIndex(array: ts.ArrayLiteralExpression, token: string): number {
+  return array.elements.findIndex(
+    (el) => ts.isIdentifier(el) && el.text === token,
+  );
+}
 
 /**
  * Idempotently add a block import + array entry to a cmssy/blocks.ts registry.
- * Returns true when the file changed.
+ * The import goes through the project's path alias when `imports` has one
+ * covering `blocksDir` (`blocks/` beside the registry's folder by default),
+ * else it is relative; without `imports` it assumes `@/`. Returns true when
+ * the file changed.
  */
 export async function registerBlock(
   blocksFile: string,
   camel: string,
   type: string,
+  imports?: Pick<ImportConfig, "aliases">,
+  blocksDir = join(dirname(dirname(blocksFile)), "blocks"),
 ): Promise<boolean> {
-  let content = await readFile(blocksFile, "utf8");
+  const { file, source, sf, array } = locate(blocksFile);
   const token = `${camel}Block`;
-  const tokenRe = new RegExp(`\\b${token}\\b`);
+  const existing = findImportElement(sf, token);
+  const local = existing?.local ?? token;
+  if (entryIndex(array, local) !== -1) return false;
 
-  const arrayRe = /export const blocks\s*=\s*\[([\s\S]*?)\]/;
-  const arrayMatch = arrayRe.exec(content);
-  if (!arrayMatch) {
-    throw new Error(
-      `Could not find \`export const blocks = [...]\` in ${blocksFile} - add ${token} manually.`,
+  const edits: Edit[] = [];
+  if (!existing) {
+    const specifier = imports
+      ? importPath(file, join(blocksDir, type, "block"), imports)
+      : `@/blocks/${type}/block`;
+    const importLine = `import { ${token} } from "${specifier}";`;
+    const decls = sf.statements.filter(ts.isImportDeclaration);
+    const last = decls[decls.length - 1];
+    edits.push(
+      last
+        ? { start: last.end, end: last.end, text: `\n${importLine}` }
+        : { start: 0, end: 0, text: `${importLine}\n\n` },
     );
   }
+  edits.push(...appendEdits(source, sf, array, local));
 
-  if (tokenRe.test(arrayMatch[1]!)) return false;
+  await writeText(file, applyEdits(source, edits));
+  return true;
+}
 
-  const lines = content.split("\n");
-  const alreadyImported = lines.some(
-    (line) => line.startsWith("import ") && tokenRe.test(line),
-  );
-  if (!alreadyImported) {
-    const importLine = `import { ${token} } from "@/blocks/${type}/block";`;
-    let lastImport = -1;
-    lines.forEach((line, i) => {
-      if (line.startsWith("import ")) lastImport = i;
-    });
-    lines.splice(lastImport + 1, 0, importLine);
-    content = lines.join("\n");
-  }
-
-  content = content.replace(arrayRe, (_match, inner: string) => {
-    const body = inner.replace(/\s+$/, "").replace(/,\s*$/, "");
-    const next = body.trim() ? `${body}, ${token}` : token;
-    return `export const blocks = [${next}]`;
-  });
-
-  await writeFile(blocksFile, content, "utf8");
+/**
+ * Remove a block's import + array entry from a cmssy/blocks.ts registry,
+ * including one imported under an alias. Returns true when the file changed.
+ */
+export async function unregisterBlock(
+  blocksFile: string,
+  camel: string,
+): Promise<boolean> {
+  const { file, source, sf, array } = locate(blocksFile);
+  const token = `${camel}Block`;
+  const found = findImportElement(sf, token);
+  const edits: Edit[] = [];
+
+  const index = entryIndex(array, found?.local ?? token);
+  if (index !== -1) {
+    edits.push(removalEdit(source, sf, array, index));
+  }
+
+  if (found) {
+    const { decl, named } = found;
+    if (named.elements.length === 1 && !decl.importClause!.name) {
+      const start = lineStart(source, decl.getStart(sf));
+      const end = source[decl.end] === "\n" ? decl.end + 1 : decl.end;
+      edits.push({ start, end, text: "" });
+    } else {
+      edits.push(removalEdit(source, sf, named, found.index));
+    }
+  }
+
+  if (!edits.length) return false;
+  await writeText(file, applyEdits(source, edits));
+  return true;
+}
+
+/**
+ * Point a registry import + array entry at a renamed block: `fromBlock` becomes
+ * `toBlock` and the import path moves from `blocks/<fromType>/` to
+ * `blocks/<toType>/`. An alias (`{ heroBlock as hero }`) keeps its local name
+ * and only the imported one changes. Returns true when the file changed.
+ */
+export async function renameRegisteredBlock(
+  blocksFile: string,
+  from: { camel: string; type: string },
+  to: { camel: string; type: string },
+): Promise<boolean> {
+  const { file, source, sf, array } = locate(blocksFile);
+  const fromToken = `${from.camel}Block`;
+  const toToken = `${to.camel}Block`;
+  const found = findImportElement(sf, fromToken);
+  const edits: Edit[] = [];
+
+  // Entries use the local name, which only changes when it is the export's.
+  if (!found || found.local === fromToken) {
+    for (const el of array.elements) {
+      if (ts.isIdentifier(el) && el.text === fromToken) {
+        edits.push({ start: el.getStart(sf), end: el.end, text: toToken });
+      }
+    }
+  }
+
+  if (found) {
+    const el = found.named.elements[found.index]!;
+    for (const id of [el.propertyName, el.name]) {
+      if (id && ts.isIdentifier(id) && id.text === fromToken) {
+        edits.push({ start: id.getStart(sf), end: id.end, text: toToken });
+      }
+    }
+    const spec = found.decl.moduleSpecifier as ts.StringLiteral;
+    const moved = spec.text.replace(
+      new RegExp(`(^|/)blocks/${from.type}(?=/|$)`),
+      `$1blocks/${to.type}`,
+    );
+    if (moved !== spec.text) {
+      const quote = source[spec.getStart(sf)];
+      edits.push({
+        start: spec.getStart(sf),
+        end: spec.end,
+        text: `${quote}${moved}${quote}`,
+      });
+    }
+  }
+
+  if (!edits.length) return false;
+  await writeText(file, applyEdits(source, edits));
+  return true;
+}
+
+/**
+ * Move a block's array entry. `position` is `"first"`, `"last"`, or
+ * `{ before | after: otherCamel }`. Entries swap text in place, so the
+ * array's layout and any comments between entries stay where they were.
+ */
+export async function moveBlock(
+  blocksFile: string,
+  camel: string,
+  position: "first" | "last" | { before: string } | { after: string },
+): Promise<boolean> {
+  const { file, source, sf, array } = locate(blocksFile);
+  // the array names a block by its import's local name, which may be an alias
+  const entryName = (token: string) =>
+    findImportElement(sf, token)?.local ?? token;
+  const token = `${camel}Block`;
+  const elements = [...array.elements];
+  const from = entryIndex(array, entryName(token));
+  if (from === -1) {
+    throw new RegistryError(
+      file,
+      lineOf(sf, array),
+      `${token} is not in the blocks array.`,
+    );
+  }
+
+  const texts = elements.map((el) => el.getText(sf));
+  const [moving] = texts.splice(from, 1);
+  let to: number;
+  if (position === "first") to = 0;
+  else if (position === "last") to = texts.length;
+  else {
+    const other = `${"before" in position ? position.before : position.after}Block`;
+    const at = texts.indexOf(entryName(other));
+    if (at === -1) {
+      throw new RegistryError(
+        file,
+        lineOf(sf, array),
+        `${other} is not in the blocks array.`,
+      );
+    }
+    to = "before" in position ? at : at + 1;
+  }
+  texts.splice(to, 0, moving!);
+
+  const edits = elements
+    .map((el, i) => ({ start: el.getStart(sf), end: el.end, text: texts[i]! }))
+    .filter((e, i) => e.text !== elements[i]!.getText(sf));
+  if (!edits.length) return false;
+  await writeText(file, applyEdits(source, edits));
   return true;
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { blockNames } from "./names.js";
+import { renameBlockSource, renamedFileName } from "./rename.js";
+
+const from = blockNames("hero");
+const to = blockNames("Landing Hero");
+
+const BLOCK = `import { defineBlock, fields } from "@cmssy/react";
+import Hero from "./Hero";
+
+export const heroBlock = defineBlock({
+  type: "hero",
+  label: "Hero",
+  component: Hero,
+  props: {
+    heading: fields.singleLine({ label: "Hero heading" }),
+  },
+});
+`;
+
+const COMPONENT = `import styles from "./Hero.module.css";
+
+type HeroContent = {
+  heading?: string;
+};
+
+export default function Hero({ content }: { content: HeroContent }) {
+  return <h2 className={styles.hero}>Hero</h2>;
+}
+`;
+
+describe("renameBlockSource", () => {
+  it("renames the export, component import, type and label", () => {
+    const out = renameBlockSource(BLOCK, from, to);
+    expect(out).toContain('import LandingHero from "./LandingHero";');
+    expect(out).toContain("export const landingHeroBlock = defineBlock({");
+    expect(out).toContain('type: "landing-hero",');
+    expect(out).toContain('label: "Landing Hero",');
+    expect(out).toContain("component: LandingHero,");
+    expect(out).toContain('label: "Hero heading"');
+  });
+
+  it("keeps the type string with keepType", () => {
+    const out = renameBlockSource(BLOCK, from, to, { keepType: true });
+    expect(out).toContain('type: "hero",');
+    expect(out).toContain("export const landingHeroBlock");
+  });
+
+  it("renames the component, content type and CSS module import only", () => {
+    const out = renameBlockSource(COMPONENT, from, to);
+    expect(out).toContain('import styles from "./LandingHero.module.css";');
+    expect(out).toContain("type LandingHeroContent = {");
+    expect(out).toContain(
+      "export default function LandingHero({ content }: { content: LandingHeroContent })",
+    );
+    expect(out).toContain("styles.hero}>Hero</h2>");
+  });
+});
+
+describe("renamedFileName", () => {
+  it("renames Pascal-named files and leaves the rest", () => {
+    expect(renamedFileName("Hero.tsx", from, to)).toBe("LandingHero.tsx");
+    expect(renamedFileName("Hero.module.css", from, to)).toBe(
+      "LandingHero.module.css",
+    );
+    expect(renamedFileName("block.ts", from, to)).toBe("block.ts");
+    expect(renamedFileName("HeroIcon.tsx", from, to)).toBe("HeroIcon.tsx");
+  });
+});
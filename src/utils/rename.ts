@@ -0,0 +1,61 @@
+import type { BlockNames } from "./names.js";
+
+export interface RenameOptions {
+  /** Keep `type: "<old>"` so content already stored under it keeps rendering. */
+  keepType?: boolean;
+}
+
+function escape(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** New file name inside the block folder: `Old.tsx` -> `New.tsx`, others as-is. */
+export function renamedFileName(
+  name: string,
+  from: BlockNames,
+  to: BlockNames,
+): string {
+  return name.startsWith(`${from.Pascal}.`)
+    ? to.Pascal + name.slice(from.Pascal.length)
+    : name;
+}
+
+/**
+ * Rewrite one source file of a block folder for its new names. Only the
+ * scaffolded identifiers are touched (the `camelBlock` export, the component
+ * and its content type, `./Pascal` and `./Pascal.module.css` imports, the
+ * `type:` and `label:` strings) so prose mentioning the old name survives.
+ */
+export function renameBlockSource(
+  content: string,
+  from: BlockNames,
+  to: BlockNames,
+  opts: RenameOptions = {},
+): string {
+  const P = escape(from.Pascal);
+  let out = content
+    .replace(
+      new RegExp(`\\b${escape(from.camel)}Block\\b`, "g"),
+      `${to.camel}Block`,
+    )
+    .replace(
+      new RegExp(`(["']\\./)${P}((?:\\.module\\.css)?["'])`, "g"),
+      `$1${to.Pascal}$2`,
+    )
+    .replace(new RegExp(`\\b${P}Content\\b`, "g"), `${to.Pascal}Content`)
+    .replace(
+      new RegExp(`\\b(import|function|component:)(\\s+)${P}\\b`, "g"),
+      `$1$2${to.Pascal}`,
+    )
+    .replace(
+      new RegExp(`(\\blabel:\\s*["'])${escape(from.Label)}(["'])`),
+      `$1${to.Label}$2`,
+    );
+  if (!opts.keepType) {
+    out = out.replace(
+      new RegExp(`(\\btype:\\s*["'])${escape(from.type)}(["'])`),
+      `$1${to.type}$2`,
+    );
+  }
+  return out;
+}
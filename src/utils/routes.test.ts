@@ -0,0 +1,102 @@
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  asidePath,
+  findCmssyMount,
+  findRouteConflicts,
+  normalizeMount,
+} from "./routes.js";
+
+async function appWith(files: string[]): Promise<string> {
+  const app = join(await mkdtemp(join(tmpdir(), "cmssy-routes-")), "app");
+  for (const f of files) {
+    await mkdir(join(app, f, ".."), { recursive: true });
+    await writeFile(join(app, f), "export default function Page() {}\n");
+  }
+  return app;
+}
+
+describe("findRouteConflicts", () => {
+  it("flags a root page and other root dynamic segments", async () => {
+    const app = await appWith([
+      "page.tsx",
+      "[slug]/page.tsx",
+      "about/page.tsx",
+      "[[...path]]/page.tsx",
+    ]);
+    expect(findRouteConflicts(app).map((c) => [c.kind, c.path])).toEqual([
+      ["dynamic", "[slug]"],
+      ["page", "page.tsx"],
+    ]);
+  });
+
+  it("looks through route groups and skips private folders", async () => {
+    const app = await appWith([
+      "(marketing)/page.tsx",
+      "(shop)/(inner)/[product]/page.tsx",
+      "_lib/[x]/page.tsx",
+      "[empty]/helpers.ts",
+    ]);
+    expect(findRouteConflicts(app).map((c) => c.path)).toEqual([
+      "(marketing)/page.tsx",
+      "(shop)/(inner)/[product]",
+    ]);
+  });
+
+  it("checks the URL level of a mount path", async () => {
+    const app = await appWith([
+      "page.tsx",
+      "blog/page.tsx",
+      "(site)/blog/[slug]/page.tsx",
+    ]);
+    expect(findRouteConflicts(app, "/blog").map((c) => c.path)).toEqual([
+      "(site)/blog/[slug]",
+      "blog/page.tsx",
+    ]);
+    expect(findRouteConflicts(app, "/pages")).toEqual([]);
+  });
+});
+
+describe("asidePath", () => {
+  it("renames pages out of routing and privatizes dynamic folders", () => {
+    expect(
+      asidePath({ kind: "page", path: "page.tsx", abs: "/a/app/page.tsx" }),
+    ).toBe("/a/app/page.pre-cmssy.tsx");
+    expect(
+      asidePath({ kind: "dynamic", path: "[slug]", abs: "/a/app/[slug]" }),
+    ).toBe("/a/app/_[slug]");
+  });
+});
+
+describe("normalizeMount", () => {
+  it("normalizes slashes and rejects dynamic segments", () => {
+    expect(normalizeMount("marketing/")).toBe("/marketing");
+    expect(normalizeMount("/a/b")).toBe("/a/b");
+    expect(normalizeMount("/")).toBe("");
+    expect(normalizeMount("/[slug]")).toBeNull();
+    expect(normalizeMount("(group)")).toBeNull();
+  });
+});
+
+describe("findCmssyMount", () => {
+  it("finds the cmssy catch-all and its URL path, ignoring groups", async () => {
+    const app = await appWith(["[[...path]]/page.tsx"]);
+    await mkdir(join(app, "(site)", "marketing", "[[...path]]"), {
+      recursive: true,
+    });
+    await writeFile(
+      join(app, "(site)", "marketing", "[[...path]]", "page.tsx"),
+      "export default createCmssyPage(cmssy, blocks);\n",
+    );
+    expect(findCmssyMount(app)).toEqual({
+      mount: "/marketing",
+      page: join(app, "(site)", "marketing", "[[...path]]", "page.tsx"),
+    });
+  });
+
+  it("returns null without a cmssy catch-all", async () => {
+    expect(findCmssyMount(await appWith(["page.tsx"]))).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { basename, join, relative, sep } from "node:path";
+
+/** The folder cmssy's optional catch-all route lives in. */
+export const CATCH_ALL_DIR = "[[...path]]";
+
+const ROUTE_FILE = /^(page|route)\.(tsx|ts|jsx|js|mdx|md)$/;
+
+export type RouteConflictKind = "page" | "dynamic";
+
+/**
+ * An app route that collides with cmssy's optional catch-all at the same URL
+ * level: Next refuses to build with another dynamic segment there, or with a
+ * `page`/`route` file that serves the same URL as the optional catch-all.
+ */
+export interface RouteConflict {
+  kind: RouteConflictKind;
+  /** path under the app dir, POSIX-style, e.g. `(site)/page.tsx` or `[slug]` */
+  path: string;
+  /** absolute */
+  abs: string;
+}
+
+function isDirectory(p: string): boolean {
+  return existsSync(p) && statSync(p).isDirectory();
+}
+
+/** `(group)` folders don't add a URL segment. */
+function isGroup(name: string): boolean {
+  return name.startsWith("(") && name.endsWith(")");
+}
+
+function isDynamic(name: string): boolean {
+  return name.startsWith("[") && name.endsWith("]");
+}
+
+/** `_private` folders and `@slot` parallel routes are skipped. */
+function isIgnored(name: string): boolean {
+  return name.startsWith("_") || name.startsWith("@");
+}
+
+function subdirs(dir: string): string[] {
+  return readdirSync(dir).filter(
+    (name) => !isIgnored(name) && isDirectory(join(dir, name)),
+  );
+}
+
+/** Every folder that serves the URL level `segments` below `dir`, through route groups. */
+function levelDirs(dir: string, segments: string[]): string[] {
+  const here = [dir];
+  const groups = (d: string): string[] =>
+    subdirs(d)
+      .filter(isGroup)
+      .flatMap((g) => [join(d, g), ...groups(join(d, g))]);
+  here.push(...groups(dir));
+  if (!segments.length) return here;
+  const [first, ...rest] = segments;
+  return here
+    .filter((d) => isDirectory(join(d, first!)))
+    .flatMap((d) => levelDirs(join(d, first!), rest));
+}
+
+/** Whether a folder holds any page or route file, at any depth. */
+function hasRoutes(dir: string): boolean {
+  return readdirSync(dir).some((name) => {
+    const p = join(dir, name);
+    if (isDirectory(p)) return !isIgnored(name) && hasRoutes(p);
+    return ROUTE_FILE.test(name);
+  });
+}
+
+/** URL segments of a mount path: `/marketing/site` -> ["marketing", "site"]. */
+export function mountSegments(mount: string): string[] {
+  return mount.split("/").filter(Boolean);
+}
+
+/**
+ * Routes that collide with cmssy's catch-all mounted at `mount` ("" for the
+ * site root): page/route files at that URL level and other dynamic segments
+ * there, looking through route groups. cmssy's own catch-all is not a
+ * conflict.
+ */
+export function findRouteConflicts(
+  appDir: string,
+  mount = "",
+): RouteConflict[] {
+  if (!isDirectory(appDir)) return [];
+  const segments = mountSegments(mount);
+  const ours = join(appDir, ...segments, CATCH_ALL_DIR);
+  const rel = (p: string) => relative(appDir, p).split(sep).join("/");
+  const out: RouteConflict[] = [];
+
+  for (const dir of levelDirs(appDir, segments)) {
+    for (const name of readdirSync(dir)) {
+      const abs = join(dir, name);
+      if (ROUTE_FILE.test(name) && !isDirectory(abs)) {
+        out.push({ kind: "page", path: rel(abs), abs });
+      } else if (
+        isDynamic(name) &&
+        abs !== ours &&
+        isDirectory(abs) &&
+        hasRoutes(abs)
+      ) {
+        out.push({ kind: "dynamic", path: rel(abs), abs });
+      }
+    }
+  }
+  return out.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Why a conflict breaks the catch-all, for init and doctor output. */
+export function describeConflict(conflict: RouteConflict, mount = ""): string {
+  const url = mount || "/";
+  return conflict.kind === "page"
+    ? `app/${conflict.path} also serves ${url} - Next rejects it next to an optional catch-all`
+    : `app/${conflict.path} is a second dynamic segment at ${url} - Next won't build with both`;
+}
+
+/**
+ * Where a conflicting route goes when moved aside: a `page.tsx` becomes
+ * `page.pre-cmssy.tsx` (no longer a route, imports still resolve), a
+ * dynamic folder becomes a `_private` folder Next doesn't route.
+ */
+export function asidePath(conflict: RouteConflict): string {
+  const name = basename(conflict.abs);
+  const aside =
+    conflict.kind === "page"
+      ? name.replace(/\.(\w+)$/, ".pre-cmssy.$1")
+      : `_${name}`;
+  return join(conflict.abs, "..", aside);
+}
+
+/** `marketing/`, `/marketing` -> `/marketing`; "" or "/" -> ""; null when invalid. */
+export function normalizeMount(input: string): string | null {
+  const segments = mountSegments(input.trim());
+  if (!segments.every((s) => /^[a-z0-9][a-z0-9._-]*$/i.test(s))) return null;
+  return segments.length ? `/${segments.join("/")}` : "";
+}
+
+export interface CmssyMount {
+  /** URL path the catch-all serves, "" for the site root */
+  mount: string;
+  /** absolute path of the catch-all page */
+  page: string;
+}
+
+const PAGE_FILES = ["page.tsx", "page.ts", "page.jsx", "page.js"];
+
+/**
+ * Find the catch-all page that renders cmssy (`createCmssyPage`) anywhere
+ * under the app dir, and the URL path it is mounted at. Route groups don't
+ * count towards the mount. The shallowest one wins.
+ */
+export function findCmssyMount(appDir: string): CmssyMount | null {
+  if (!isDirectory(appDir)) return null;
+  const queue: string[][] = [[]];
+  while (queue.length) {
+    const parts = queue.shift()!;
+    const dir = join(appDir, ...parts);
+    if (basename(dir) === CATCH_ALL_DIR) {
+      const page = PAGE_FILES.map((f) => join(dir, f)).find((p) =>
+        existsSync(p),
+      );
+      if (page && readFileSync(page, "utf8").includes("createCmssyPage")) {
+        const url = parts.slice(0, -1).filter((p) => !isGroup(p));
+        return { mount: url.length ? `/${url.join("/")}` : "", page };
+      }
+      continue;
+    }
+    for (const name of subdirs(dir).sort()) queue.push([...parts, name]);
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { project } from "../test/project.js";
+import { importPath, loadImportConfig, resolveImport } from "./tsconfig.js";
+
+describe("loadImportConfig", () => {
+  it("reads paths relative to baseUrl, tolerating comments", async () => {
+    const dir = await project({
+      "tsconfig.json": `{
+        // create-next-app style
+        "compilerOptions": { "baseUrl": ".", "paths": { "~/*": ["./src/*"] } },
+      }`,
+    });
+    const config = loadImportConfig(dir);
+    expect(config.aliases).toEqual([
+      { prefix: "~/", targets: [join(dir, "src")] },
+    ]);
+    expect(config.baseUrl).toBe(dir);
+  });
+
+  it("follows extends and resolves paths against the config defining them", async () => {
+    const dir = await project({
+      "tsconfig.json": '{ "extends": "./config/base.json" }',
+      "config/base.json":
+        '{ "compilerOptions": { "paths": { "#/*": ["../app/*"] } } }',
+    });
+    expect(loadImportConfig(dir).aliases).toEqual([
+      { prefix: "#/", targets: [join(dir, "app")] },
+    ]);
+  });
+
+  it("falls back to jsconfig.json and to no aliases", async () => {
+    const js = await project({
+      "jsconfig.json": '{ "compilerOptions": { "paths": { "@/*": ["./*"] } } }',
+    });
+    expect(loadImportConfig(js).aliases[0]?.prefix).toBe("@/");
+    const none = await project({});
+    expect(loadImportConfig(none)).toEqual({
+      configFile: null,
+      aliases: [],
+      baseUrl: null,
+    });
+  });
+});
+
+describe("importPath", () => {
+  const aliases = [{ prefix: "@/", targets: ["/p/src"] }];
+
+  it("uses an alias that covers the target", () => {
+    expect(
+      importPath("/p/src/cmssy/blocks.ts", "/p/src/blocks/x/block", {
+        aliases,
+      }),
+    ).toBe("@/blocks/x/block");
+  });
+
+  it("falls back to a relative path", () => {
+    expect(
+      importPath("/p/cmssy/blocks.ts", "/p/blocks/x/block", { aliases }),
+    ).toBe("../blocks/x/block");
+    expect(importPath("/p/proxy.ts", "/p/cmssy.config", { aliases: [] })).toBe(
+      "./cmssy.config",
+    );
+  });
+});
+
+describe("resolveImport", () => {
+  it("resolves aliased, relative and baseUrl specifiers", async () => {
+    const dir = await project({
+      "src/cmssy.config.ts": "",
+      "src/lib/a.ts": "",
+    });
+    const config = {
+      configFile: null,
+      aliases: [{ prefix: "@/", targets: [join(dir, "src")] }],
+      baseUrl: join(dir, "src"),
+    };
+    const from = join(dir, "src", "proxy.ts");
+    expect(resolveImport("@/cmssy.config", from, config)).toBe(
+      join(dir, "src", "cmssy.config.ts"),
+    );
+    expect(resolveImport("./lib/a", from, config)).toBe(
+      join(dir, "src", "lib", "a.ts"),
+    );
+    expect(resolveImport("lib/a", from, config)).toBe(
+      join(dir, "src", "lib", "a.ts"),
+    );
+    expect(resolveImport("@/missing", from, config)).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { existsSync, statSync } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import ts from "typescript";
+
+/** One `compilerOptions.paths` wildcard entry, e.g. `"@/*": ["./src/*"]`. */
+export interface PathAlias {
+  /** `@/` for `"@/*"` */
+  prefix: string;
+  /** absolute directories the wildcard maps into, in lookup order */
+  targets: string[];
+}
+
+export interface ImportConfig {
+  /** the tsconfig.json / jsconfig.json that was read, if any */
+  configFile: string | null;
+  aliases: PathAlias[];
+  /** absolute `baseUrl`, when set */
+  baseUrl: string | null;
+}
+
+const CONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+const MODULE_SUFFIXES = [
+  "",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  "/index.ts",
+  "/index.tsx",
+  "/index.js",
+];
+
+/**
+ * Read a project's import aliases from tsconfig.json (or jsconfig.json),
+ * following `extends` chains the way tsc does. Never throws: an unreadable
+ * config reads as "no aliases".
+ */
+export function loadImportConfig(projectDir: string): ImportConfig {
+  const configFile =
+    CONFIG_FILES.map((f) => join(projectDir, f)).find((f) => existsSync(f)) ??
+    null;
+  if (!configFile) return { configFile: null, aliases: [], baseUrl: null };
+
+  const read = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (read.error || !read.config) {
+    return { configFile, aliases: [], baseUrl: null };
+  }
+  // Only compilerOptions matter here - skip tsc's walk over `include`.
+  const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+  const { options } = ts.parseJsonConfigFileContent(
+    read.config,
+    host,
+    dirname(configFile),
+    undefined,
+    configFile,
+  );
+
+  const baseUrl = options.baseUrl ? resolve(options.baseUrl) : null;
+  const pathsBase =
+    baseUrl ??
+    (typeof options.pathsBasePath === "string"
+      ? options.pathsBasePath
+      : dirname(configFile));
+
+  const aliases: PathAlias[] = [];
+  for (const [key, targets] of Object.entries(options.paths ?? {})) {
+    if (!key.endsWith("*") || key.indexOf("*") !== key.length - 1) continue;
+    const dirs = targets
+      .filter((t) => t.endsWith("*"))
+      .map((t) => resolve(pathsBase, t.slice(0, -1)));
+    if (dirs.length) aliases.push({ prefix: key.slice(0, -1), targets: dirs });
+  }
+  // Most specific prefix first, as tsc does.
+  aliases.sort((a, b) => b.prefix.length - a.prefix.length);
+  return { configFile, aliases, baseUrl };
+}
+
+function isInside(child: string, parent: string): boolean {
+  const rel = relative(parent, child);
+  return !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+function toPosix(p: string): string {
+  return p.split(sep).join("/");
+}
+
+/**
+ * The specifier `fromFile` should use to import `target` (absolute, without
+ * extension): through the project's alias when one covers it, otherwise a
+ * relative path.
+ */
+export function importPath(
+  fromFile: string,
+  target: string,
+  config: Pick<ImportConfig, "aliases">,
+): string {
+  let best: { prefix: string; dir: string } | null = null;
+  for (const alias of config.aliases) {
+    for (const dir of alias.targets) {
+      if (isInside(target, dir) && (!best || dir.length > best.dir.length)) {
+        best = { prefix: alias.prefix, dir };
+      }
+    }
+  }
+  if (best) return best.prefix + toPosix(relative(best.dir, target));
+
+  const rel = toPosix(relative(dirname(fromFile), target));
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+function probe(base: string): string | null {
+  for (const suffix of MODULE_SUFFIXES) {
+    const candidate = base + suffix;
+    if (existsSync(candidate) && statSync(candidate).isFile()) return candidate;
+  }
+  return null;
+}
+
+/** The alias a non-relative specifier would go through, if any. */
+export function matchAlias(
+  specifier: string,
+  config: Pick<ImportConfig, "aliases">,
+): PathAlias | null {
+  return config.aliases.find((a) => specifier.startsWith(a.prefix)) ?? null;
+}
+
+/**
+ * Resolve a specifier written in `fromFile` to a file on disk using relative
+ * paths, `paths` aliases and `baseUrl`. Returns null for anything else
+ * (packages, or an alias that points nowhere).
+ */
+export function resolveImport(
+  specifier: string,
+  fromFile: string,
+  config: ImportConfig,
+): string | null {
+  if (specifier.startsWith(".")) {
+    return probe(resolve(dirname(fromFile), specifier));
+  }
+  const alias = matchAlias(specifier, config);
+  if (alias) {
+    const rest = specifier.slice(alias.prefix.length);
+    for (const dir of alias.targets) {
+      const hit = probe(join(dir, rest));
+      if (hit) return hit;
+    }
+    return null;
+  }
+  return config.baseUrl ? probe(join(config.baseUrl, specifier)) : null;
+}
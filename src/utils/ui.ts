@@ -2,6 +2,7 @@ import { existsSync, readFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import pc from "picocolors";
+import { collect, isJson } from "./output.js";
 
 export function getVersion(): string {
   try {
@@ -20,12 +21,35 @@ export function getVersion(): string {
   return "0.0.0";
 }
 
+/** Plain console output; silent in --json mode, which collects warnings and errors. */
 export const ui = {
-  info: (msg: string) => console.log(msg),
-  dim: (msg: string) => console.log(pc.dim(msg)),
-  success: (msg: string) => console.log(pc.green(msg)),
-  warn: (msg: string) => console.log(pc.yellow(msg)),
-  error: (msg: string) => console.error(pc.red(msg)),
+  info: (msg: string) => isJson() || console.log(msg),
+  dim: (msg: string) => isJson() || console.log(pc.dim(msg)),
+  success: (msg: string) => isJson() || console.log(pc.green(msg)),
+  warn: (msg: string) => collect("warning", msg) || console.log(pc.yellow(msg)),
+  error: (msg: string) => collect("error", msg) || console.error(pc.red(msg)),
 };
 
+/** Left-aligned columns; widths ignore ANSI colour codes. */
+export function formatTable(rows: string[][]): string {
+  const visible = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, "").length;
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, i) => {
+      widths[i] = Math.max(widths[i] ?? 0, visible(cell));
+    });
+  }
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i === row.length - 1
+            ? cell
+            : cell + " ".repeat(widths[i]! - visible(cell)),
+        )
+        .join("  "),
+    )
+    .join("\n");
+}
+
 export { pc };
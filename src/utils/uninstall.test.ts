@@ -0,0 +1,75 @@
+import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { recordGenerated } from "./manifest.js";
+import { applyOverlay } from "./overlay.js";
+import { loadImportConfig } from "./tsconfig.js";
+import { orphanedBlocks, planUninstall } from "./uninstall.js";
+
+async function project(record = true): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "cmssy-uninstall-"));
+  await mkdir(join(dir, "app"));
+  const report = await applyOverlay(dir);
+  if (record) await recordGenerated(dir, report.generated);
+  return dir;
+}
+
+const states = (dir: string, opts = {}) =>
+  Object.fromEntries(
+    planUninstall(dir, opts).files.map((f) => [f.path, f.state]),
+  );
+
+describe("planUninstall", () => {
+  it("lists every generated file with its state", async () => {
+    const dir = await project();
+    await writeFile(join(dir, "cmssy", "editor.tsx"), "// mine\n");
+    const files = states(dir);
+    expect(files["cmssy.config.ts"]).toBe("pristine");
+    expect(files["app/[[...path]]/page.tsx"]).toBe("pristine");
+    expect(files["cmssy/editor.tsx"]).toBe("modified");
+  });
+
+  it("leaves blocks/ out with keepBlocks", async () => {
+    const dir = await project();
+    expect(states(dir)["blocks/hero/block.ts"]).toBe("pristine");
+    expect(
+      states(dir, { keepBlocks: true })["blocks/hero/block.ts"],
+    ).toBeUndefined();
+  });
+
+  it("falls back to the templates without a manifest", async () => {
+    const dir = await project(false);
+    await writeFile(join(dir, "cmssy", "editor.tsx"), "// mine\n");
+    await writeFile(join(dir, "next.config.mjs"), "export default {};\n");
+    const files = states(dir);
+    expect(files["cmssy.config.ts"]).toBe("pristine");
+    expect(files["cmssy/editor.tsx"]).toBe("modified");
+    // may have been the app's own
+    expect(files["next.config.mjs"]).toBeUndefined();
+  });
+});
+
+describe("orphanedBlocks", () => {
+  it("finds the blocks a kept registry imports from deleted files", async () => {
+    const dir = await project();
+    await writeFile(
+      join(dir, "cmssy", "blocks.ts"),
+      'import { heroBlock as hero } from "@/blocks/hero/block";\n\nexport const blocks = [hero];\n',
+    );
+    const remove = planUninstall(dir).files.filter(
+      (f) => f.state === "pristine",
+    );
+    expect(remove.map((f) => f.path)).not.toContain("cmssy/blocks.ts");
+    expect(
+      orphanedBlocks(
+        join(dir, "cmssy", "blocks.ts"),
+        join(dir, "blocks"),
+        loadImportConfig(dir),
+        new Set(remove.map((f) => f.abs)),
+      ),
+    ).toEqual([
+      { dir: join(dir, "blocks", "hero"), local: "hero", camel: "hero" },
+    ]);
+  });
+});
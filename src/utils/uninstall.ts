@@ -0,0 +1,123 @@
+import { dirname, join, sep } from "node:path";
+import { pathExists, readTextSync } from "./files.js";
+import { resolveBlockModule } from "./inventory.js";
+import { manifestKey, manifestStatus } from "./manifest.js";
+import { renderOverlay, type OverlayOptions } from "./overlay.js";
+import { readRegistry, RegistryError } from "./registry.js";
+import type { ImportConfig } from "./tsconfig.js";
+
+export interface UninstallFile {
+  /** project-relative, POSIX-style */
+  path: string;
+  abs: string;
+  /** pristine: still as generated; modified: edited since */
+  state: "pristine" | "modified";
+}
+
+export interface UninstallPlan {
+  files: UninstallFile[];
+  /** recorded in the manifest but already gone */
+  gone: string[];
+}
+
+export interface UninstallOptions extends OverlayOptions {
+  srcDir?: boolean;
+  /** leave everything under blocks/ alone */
+  keepBlocks?: boolean;
+}
+
+/**
+ * Templates a project may well have had before init: without a manifest
+ * entry they only count as cmssy's while they still match the template.
+ */
+const SHARED_TEMPLATES = new Set([
+  "init/next.config.mjs",
+  "init/env.example",
+  "init/proxy.ts",
+]);
+
+/**
+ * The files init (and `add block`) generated that are still there: the ones
+ * the manifest records, plus - for projects initialized before it existed -
+ * the overlay files init would write today.
+ */
+export function planUninstall(
+  projectDir: string,
+  opts: UninstallOptions = {},
+): UninstallPlan {
+  const blocksDir =
+    opts.blocksDir ??
+    join(opts.srcDir ? join(projectDir, "src") : projectDir, "blocks");
+  const kept = (abs: string) =>
+    Boolean(opts.keepBlocks) && abs.startsWith(blocksDir + sep);
+  const plan: UninstallPlan = { files: [], gone: [] };
+  const seen = new Set<string>();
+
+  for (const { path, state } of manifestStatus(projectDir)) {
+    seen.add(path);
+    const abs = join(projectDir, path);
+    if (kept(abs)) continue;
+    if (state === "deleted") plan.gone.push(path);
+    else plan.files.push({ path, abs, state });
+  }
+
+  for (const file of renderOverlay(projectDir, opts.srcDir, opts)) {
+    const path = manifestKey(projectDir, file.path);
+    if (seen.has(path) || kept(file.path) || !pathExists(file.path)) continue;
+    const pristine = readTextSync(file.path) === file.content;
+    if (!pristine && SHARED_TEMPLATES.has(file.template)) continue;
+    plan.files.push({
+      path,
+      abs: file.path,
+      state: pristine ? "pristine" : "modified",
+    });
+  }
+
+  plan.files.sort((a, b) => a.path.localeCompare(b.path));
+  return plan;
+}
+
+export interface OrphanedBlock {
+  /** the block module's folder, absolute */
+  dir: string;
+  /** the registry's binding for it */
+  local: string;
+  /** what unregisterBlock takes; null when the import isn't a `<camel>Block` one */
+  camel: string | null;
+}
+
+/**
+ * Blocks a registry that stays would still import once the `removing` files
+ * (absolute) are gone. null when the registry can't be read, so which
+ * blocks it imports isn't known.
+ */
+export function orphanedBlocks(
+  registryFile: string,
+  blocksDir: string,
+  imports: ImportConfig,
+  removing: Set<string>,
+): OrphanedBlock[] | null {
+  let registry: ReturnType<typeof readRegistry>;
+  try {
+    registry = readRegistry(registryFile);
+  } catch (err) {
+    if (err instanceof RegistryError) return null;
+    throw err;
+  }
+  const orphans: OrphanedBlock[] = [];
+  for (const imp of registry.imports) {
+    const file = resolveBlockModule(
+      imp.specifier,
+      registry.file,
+      blocksDir,
+      imports,
+    );
+    if (!file || !removing.has(file)) continue;
+    orphans.push({
+      dir: dirname(file),
+      local: imp.local,
+      camel: /^(\w+)Block$/.exec(imp.imported)?.[1] ?? null,
+    });
+  }
+  return orphans;
+}
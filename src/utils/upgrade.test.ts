@@ -0,0 +1,88 @@
+import { mkdtemp, mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import type { Codemod } from "./codemods.js";
+import { manifestStatus, readManifest, recordGenerated } from "./manifest.js";
+import { applyOverlay } from "./overlay.js";
+import { upgradeWiring } from "./upgrade.js";
+
+/** An initialized project whose draft route came from an older template. */
+async function project(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "cmssy-upgrade-"));
+  await mkdir(join(dir, "app"));
+  const report = await applyOverlay(dir);
+  await recordGenerated(dir, report.generated);
+  const route = join(dir, "app", "api", "draft", "route.ts");
+  await writeFile(route, "// old template\n");
+  await recordGenerated(dir, [
+    {
+      path: route,
+      template: "init/app/api/draft/route.ts",
+      content: "// old template\n",
+    },
+  ]);
+  return dir;
+}
+
+const renameEditor: Codemod = {
+  id: "editor-rename",
+  version: "0.6.0",
+  description: "CmssyEditor is now CmssyEditorClient",
+  templates: ["init/cmssy/editor.tsx"],
+  transform: (s) =>
+    s.includes("export function CmssyEditor(")
+      ? s.replace("CmssyEditor(", "CmssyEditorClient(")
+      : null,
+};
+
+describe("upgradeWiring", () => {
+  it("re-renders pristine files from the current templates", async () => {
+    const dir = await project();
+    const report = await upgradeWiring(dir);
+    expect(report.rendered).toEqual(["app/api/draft/route.ts"]);
+    expect(
+      await readFile(join(dir, "app", "api", "draft", "route.ts"), "utf8"),
+    ).toContain("createDraftRoute");
+    expect(manifestStatus(dir).every((s) => s.state === "pristine")).toBe(true);
+  });
+
+  it("leaves edited files alone and lists stale ones", async () => {
+    const dir = await project();
+    const route = join(dir, "app", "api", "draft", "route.ts");
+    await writeFile(route, "// mine\n");
+    const report = await upgradeWiring(dir);
+    expect(report.rendered).toEqual([]);
+    expect(report.stale).toEqual(["app/api/draft/route.ts"]);
+    expect(await readFile(route, "utf8")).toBe("// mine\n");
+  });
+
+  it("runs codemods on edited files and reports the ones it can't migrate", async () => {
+    const dir = await project();
+    const editor = join(dir, "cmssy", "editor.tsx");
+    const original = await readFile(editor, "utf8");
+    await writeFile(editor, `${original}// tweaked\n`);
+    let report = await upgradeWiring(dir, { codemods: [renameEditor] });
+    expect(report.migrated).toEqual([
+      { path: "cmssy/editor.tsx", applied: ["editor-rename"] },
+    ]);
+    expect(await readFile(editor, "utf8")).toContain("CmssyEditorClient(");
+
+    await writeFile(editor, "// rewritten\n");
+    report = await upgradeWiring(dir, { codemods: [renameEditor] });
+    expect(report.unmigrated.map((u) => u.path)).toEqual(["cmssy/editor.tsx"]);
+    expect(await readFile(editor, "utf8")).toBe("// rewritten\n");
+  });
+
+  it("doesn't touch files outside the manifest", async () => {
+    const dir = await project();
+    const manifest = readManifest(dir)!;
+    delete manifest.files["app/api/draft/route.ts"];
+    await writeFile(
+      join(dir, ".cmssy", "manifest.json"),
+      JSON.stringify(manifest),
+    );
+    const report = await upgradeWiring(dir);
+    expect(report.rendered).toEqual([]);
+  });
+});
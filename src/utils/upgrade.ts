@@ -0,0 +1,99 @@
+import { join } from "node:path";
+import { runCodemods, type Codemod } from "./codemods.js";
+import { readText, writeText } from "./files.js";
+import {
+  hashContent,
+  manifestKey,
+  manifestStatus,
+  recordGenerated,
+  type GeneratedFile,
+} from "./manifest.js";
+import { renderOverlay, type OverlayOptions } from "./overlay.js";
+
+export interface UpgradeReport {
+  /** pristine files re-rendered from the current templates */
+  rendered: string[];
+  /** files the codemods migrated, with the codemods applied */
+  migrated: Array<{ path: string; applied: string[] }>;
+  /** edited files a codemod didn't recognize, left as they are */
+  unmigrated: Array<{ path: string; codemod: Codemod }>;
+  /** edited files whose template changed since they were generated */
+  stale: string[];
+  /** recorded files that are gone; upgrade doesn't bring them back */
+  deleted: string[];
+}
+
+export interface UpgradeOptions extends OverlayOptions {
+  srcDir?: boolean;
+  /** codemods between the project's SDK version and the new one, oldest first */
+  codemods?: Codemod[];
+}
+
+/**
+ * Move the files recorded in the manifest to the current templates: pristine
+ * ones are re-rendered (and re-recorded), edited ones only get the codemods.
+ * Files not in the manifest are never touched.
+ */
+export async function upgradeWiring(
+  projectDir: string,
+  opts: UpgradeOptions = {},
+): Promise<UpgradeReport> {
+  const report: UpgradeReport = {
+    rendered: [],
+    migrated: [],
+    unmigrated: [],
+    stale: [],
+    deleted: [],
+  };
+  const codemods = opts.codemods ?? [];
+  const rendered = new Map(
+    renderOverlay(projectDir, opts.srcDir, opts).map((f) => [
+      manifestKey(projectDir, f.path),
+      f,
+    ]),
+  );
+  const refreshed: GeneratedFile[] = [];
+
+  for (const { path, entry, state } of manifestStatus(projectDir)) {
+    if (state === "deleted") {
+      report.deleted.push(path);
+      continue;
+    }
+    const abs = join(projectDir, path);
+    const current = await readText(abs);
+    const next = rendered.get(path);
+    if (state === "pristine" && next?.template === entry.template) {
+      if (next.content !== current) {
+        await writeText(abs, next.content);
+        report.rendered.push(path);
+      }
+      refreshed.push(next);
+      continue;
+    }
+
+    // Edited, or generated from input we don't have (`add block`): codemods only.
+    const outcome = runCodemods(current, abs, entry.template, codemods);
+    if (outcome.status === "failed") {
+      report.unmigrated.push({ path, codemod: outcome.codemod });
+    } else if (outcome.status === "migrated") {
+      await writeText(abs, outcome.content);
+      report.migrated.push({ path, applied: outcome.applied });
+      if (state === "pristine") {
+        refreshed.push({
+          path: abs,
+          template: entry.template,
+          content: outcome.content,
+        });
+      }
+    } else if (
+      state === "modified" &&
+      next?.template === entry.template &&
+      hashContent(next.content) !== entry.hash
+    ) {
+      report.stale.push(path);
+    }
+  }
+
+  await recordGenerated(projectDir, refreshed);
+  return report;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { composeMiddleware, renderMiddlewareTemplate } from "./middleware.js";
+import { mountDraftRoute, scopeProxyMatcher } from "./mount.js";
+import { readTemplate } from "./templates.js";
+import { wiringIssues } from "./wiring.js";
+
+const PAGE = "init/app/[[...path]]/page.tsx";
+
+function issues(template: string, source: string, fileName: string) {
+  return wiringIssues(template, source, fileName).map((i) => i.message);
+}
+
+describe("wiringIssues", () => {
+  it("passes every init template as rendered", () => {
+    const proxy = readTemplate("init", "proxy.ts");
+    expect(issues("init/proxy.ts", proxy, "proxy.ts")).toEqual([]);
+    expect(
+      issues(
+        "init/proxy.ts",
+        renderMiddlewareTemplate(proxy, "middleware"),
+        "middleware.ts",
+      ),
+    ).toEqual([]);
+    expect(
+      issues(
+        "init/proxy.ts",
+        scopeProxyMatcher(proxy, "/marketing"),
+        "proxy.ts",
+      ),
+    ).toEqual([]);
+    const route = readTemplate("init", "app/api/draft/route.ts");
+    for (const source of [route, mountDraftRoute(route, "/marketing")]) {
+      expect(issues("init/app/api/draft/route.ts", source, "route.ts")).toEqual(
+        [],
+      );
+    }
+    for (const [template, file] of [
+      [PAGE, "page.tsx"],
+      ["init/cmssy/editor.tsx", "editor.tsx"],
+      ["init/cmssy.config.ts", "cmssy.config.ts"],
+    ] as const) {
+      const source = readTemplate("init", template.slice("init/".length));
+      expect(issues(template, source, file)).toEqual([]);
+    }
+  });
+
+  it("flags a proxy that no longer strips the edit header", () => {
+    const proxy = readTemplate("init", "proxy.ts").replace(
+      "requestHeaders.delete(CMSSY_EDIT_HEADER);\n",
+      "",
+    );
+    expect(issues("init/proxy.ts", proxy, "proxy.ts")).toEqual([
+      "doesn't strip CMSSY_EDIT_HEADER from inbound requests, so a client can forge edit mode",
+    ]);
+  });
+
+  it("flags a proxy whose pass-through response drops the request headers", () => {
+    const composed = composeMiddleware(
+      `import { NextResponse } from "next/server";\n\nexport function middleware() {\n  return NextResponse.next();\n}\n\nexport const config = { matcher: ["/shop/:path*"] };\n`,
+      "/p/middleware.ts",
+      "@/cmssy.config",
+    )!;
+    expect(issues("init/proxy.ts", composed, "middleware.ts")).toEqual([]);
+    // a wrapper composed before the headers were forwarded
+    const dropped = composed.replace(
+      "  forwardCmssyHeaders(response, headers);\n",
+      "",
+    );
+    expect(issues("init/proxy.ts", dropped, "middleware.ts")).toEqual([
+      "lets requests through with a NextResponse.next() or rewrite that drops the request headers, so CMSSY_EDIT_HEADER never reaches server components and a forged one isn't stripped",
+    ]);
+  });
+
+  it("flags a matcher that runs for _next/ and api/", () => {
+    const proxy = readTemplate("init", "proxy.ts").replace(
+      /matcher: \[.*\]/,
+      'matcher: ["/((?!_next/).*)", "/:path*"]',
+    );
+    expect(
+      wiringIssues("init/proxy.ts", proxy, "proxy.ts").map((i) => [
+        i.severity,
+        i.message,
+      ]),
+    ).toEqual([
+      [
+        "warn",
+        'matcher "/((?!_next/).*)", "/:path*" doesn\'t exclude _next/ and api/',
+      ],
+    ]);
+  });
+
+  it("flags a page without the editor option", () => {
+    const page = readTemplate("init", PAGE.slice("init/".length)).replace(
+      "createCmssyPage(cmssy, blocks, { editor: CmssyEditor })",
+      "createCmssyPage(cmssy, blocks)",
+    );
+    expect(issues(PAGE, page, "page.tsx")).toEqual([
+      "createCmssyPage gets no `{ editor: CmssyEditor }`, so the cmssy editor can't edit this site",
+    ]);
+  });
+
+  it("flags an editor that loads blocks statically or lost use client", () => {
+    const editor = readTemplate("init", "cmssy/editor.tsx")
+      .replace('"use client";\n\n', "")
+      .replace(
+        'import type { CmssyEditorProps } from "@cmssy/next";',
+        'import type { CmssyEditorProps } from "@cmssy/next";\nimport { blocks } from "./blocks";',
+      )
+      .replace('load={() => import("./blocks")}', "blocks={blocks}");
+    expect(issues("init/cmssy/editor.tsx", editor, "editor.tsx")).toEqual([
+      'lost its "use client" directive',
+      'imports the block registry statically, bundling it for the browser - load it with import("./blocks")',
+    ]);
+  });
+
+  it("warns about config values that don't come from env", () => {
+    const config = readTemplate("init", "cmssy.config.ts").replace(
+      'process.env.CMSSY_DRAFT_SECRET ?? ""',
+      '"hunter2"',
+    );
+    expect(
+      wiringIssues("init/cmssy.config.ts", config, "cmssy.config.ts"),
+    ).toEqual([
+      {
+        message:
+          "hard-codes draftSecret - read it from process.env.CMSSY_DRAFT_SECRET",
+        severity: "warn",
+      },
+    ]);
+  });
+});
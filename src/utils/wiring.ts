@@ -0,0 +1,373 @@
+import { basename, extname } from "node:path";
+import ts from "typescript";
+import {
+  calleeName,
+  parseSource,
+  propertyValue,
+  stringValue,
+  unwrapExpression,
+} from "./ast.js";
+
+/**
+ * Content checks for the files init generates: each one must still make the
+ * SDK calls and exports that edit mode depends on. Files are read
+ * syntactically, so wiring spread over helper modules isn't followed.
+ */
+export interface WiringIssue {
+  message: string;
+  /** "warn" for wiring that works but isn't as intended */
+  severity: "fail" | "warn";
+}
+
+export interface WiringOptions {
+  /** the block registry's module name, when it isn't cmssy/blocks.ts */
+  registryName?: string;
+}
+
+/** What a check knows about the file besides its syntax tree. */
+interface CheckContext extends WiringOptions {
+  fileName: string;
+}
+
+function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
+
+function calls(sf: ts.SourceFile, name: string): ts.CallExpression[] {
+  const out: ts.CallExpression[] = [];
+  walk(sf, (node) => {
+    if (ts.isCallExpression(node) && calleeName(node) === name) out.push(node);
+  });
+  return out;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((m) => m.kind === kind)
+  );
+}
+
+/** The value a module exports under `name` ("default" for the default export). */
+function exported(sf: ts.SourceFile, name: string): ts.Node | null {
+  const local = (id: string): ts.Node | null => {
+    for (const stmt of sf.statements) {
+      if (ts.isFunctionDeclaration(stmt) && stmt.name?.text === id) return stmt;
+      if (!ts.isVariableStatement(stmt)) continue;
+      for (const decl of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name) && decl.name.text === id) {
+          return decl.initializer ? unwrapExpression(decl.initializer) : decl;
+        }
+      }
+    }
+    return null;
+  };
+
+  for (const stmt of sf.statements) {
+    if (ts.isExportAssignment(stmt) && !stmt.isExportEquals) {
+      if (name !== "default") continue;
+      const value = unwrapExpression(stmt.expression);
+      return ts.isIdentifier(value) ? (local(value.text) ?? value) : value;
+    }
+    if (!hasModifier(stmt, ts.SyntaxKind.ExportKeyword)) continue;
+    if (ts.isFunctionDeclaration(stmt)) {
+      const isDefault = hasModifier(stmt, ts.SyntaxKind.DefaultKeyword);
+      if (isDefault ? name === "default" : stmt.name?.text === name) {
+        return stmt;
+      }
+    }
+    if (ts.isVariableStatement(stmt)) {
+      for (const decl of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name) && decl.name.text === name) {
+          return decl.initializer ? unwrapExpression(decl.initializer) : decl;
+        }
+      }
+    }
+  }
+  for (const stmt of sf.statements) {
+    if (
+      !ts.isExportDeclaration(stmt) ||
+      stmt.moduleSpecifier ||
+      !stmt.exportClause ||
+      !ts.isNamedExports(stmt.exportClause)
+    ) {
+      continue;
+    }
+    for (const el of stmt.exportClause.elements) {
+      if (el.name.text === name) {
+        return local((el.propertyName ?? el.name).text);
+      }
+    }
+  }
+  return null;
+}
+
+function isProcessEnv(node: ts.Node): boolean {
+  let found = false;
+  walk(node, (n) => {
+    if (
+      ts.isPropertyAccessExpression(n) &&
+      n.name.text === "env" &&
+      ts.isIdentifier(n.expression) &&
+      n.expression.text === "process"
+    ) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * Whether a matcher pattern leaves out `/_next/...` and `/api/...`: either
+ * a negative lookahead names both, or it only matches under a fixed path.
+ */
+function matcherExcludesInternals(pattern: string): boolean {
+  const lookahead = /^\/\(\(\?!([^)]*)\)/.exec(pattern);
+  if (lookahead) {
+    return /\b_next\b/.test(lookahead[1]!) && /\bapi\b/.test(lookahead[1]!);
+  }
+  const first = /^\/([\w-]+)/.exec(pattern)?.[1];
+  return first !== undefined && first !== "_next" && first !== "api";
+}
+
+/**
+ * Whether a `NextResponse.next()` / `NextResponse.rewrite()` lets the request
+ * through without `{ request: { headers } }`, throwing away the edit header
+ * set above - unless the composed wrapper's forwardCmssyHeaders adds them.
+ */
+function dropsRequestHeaders(sf: ts.SourceFile): boolean {
+  if (calls(sf, "forwardCmssyHeaders").length) return false;
+  return [...calls(sf, "next"), ...calls(sf, "rewrite")].some((call) => {
+    const callee = call.expression;
+    if (
+      !ts.isPropertyAccessExpression(callee) ||
+      !ts.isIdentifier(callee.expression) ||
+      callee.expression.text !== "NextResponse"
+    ) {
+      return false;
+    }
+    const init = call.arguments[callee.name.text === "rewrite" ? 1 : 0];
+    if (!init) return true;
+    const value = unwrapExpression(init);
+    return (
+      ts.isObjectLiteralExpression(value) && !propertyValue(value, "request")
+    );
+  });
+}
+
+function proxyIssues(sf: ts.SourceFile, ctx: CheckContext): WiringIssue[] {
+  const issues: WiringIssue[] = [];
+  const kind = basename(ctx.fileName, extname(ctx.fileName));
+  if (!exported(sf, kind) && !exported(sf, "default")) {
+    issues.push({
+      message: `doesn't export a \`${kind}\` function`,
+      severity: "fail",
+    });
+  }
+
+  const strips = calls(sf, "delete").some((call) => {
+    const arg = call.arguments[0];
+    return arg && ts.isIdentifier(arg) && arg.text === "CMSSY_EDIT_HEADER";
+  });
+  if (!strips) {
+    issues.push({
+      message:
+        "doesn't strip CMSSY_EDIT_HEADER from inbound requests, so a client can forge edit mode",
+      severity: "fail",
+    });
+  }
+  if (dropsRequestHeaders(sf)) {
+    issues.push({
+      message:
+        "lets requests through with a NextResponse.next() or rewrite that drops the request headers, so CMSSY_EDIT_HEADER never reaches server components and a forged one isn't stripped",
+      severity: "fail",
+    });
+  }
+
+  const config = exported(sf, "config");
+  const matcher =
+    config && ts.isObjectLiteralExpression(config)
+      ? propertyValue(config, "matcher")
+      : undefined;
+  if (!matcher) {
+    issues.push({
+      message: "has no config.matcher, so it also runs for _next/ and api/",
+      severity: "warn",
+    });
+    return issues;
+  }
+  const entries = ts.isArrayLiteralExpression(matcher)
+    ? matcher.elements.map(unwrapExpression)
+    : [matcher];
+  const patterns = entries.map((e) =>
+    ts.isObjectLiteralExpression(e)
+      ? stringValue(propertyValue(e, "source"))
+      : stringValue(e),
+  );
+  // Patterns built at runtime can't be judged.
+  if (patterns.some((p) => p === null)) return issues;
+  const broad = patterns.filter((p) => !matcherExcludesInternals(p!));
+  if (broad.length) {
+    issues.push({
+      message: `matcher ${broad.map((p) => `"${p}"`).join(", ")} doesn't exclude _next/ and api/`,
+      severity: "warn",
+    });
+  }
+  return issues;
+}
+
+function pageIssues(sf: ts.SourceFile): WiringIssue[] {
+  const page = exported(sf, "default");
+  if (
+    !page ||
+    !ts.isCallExpression(page) ||
+    calleeName(page) !== "createCmssyPage"
+  ) {
+    return [
+      {
+        message: "the default export isn't createCmssyPage(...)",
+        severity: "fail",
+      },
+    ];
+  }
+  const opts = page.arguments[2] && unwrapExpression(page.arguments[2]);
+  const editor =
+    opts && ts.isObjectLiteralExpression(opts)
+      ? propertyValue(opts, "editor")
+      : undefined;
+  return editor
+    ? []
+    : [
+        {
+          message:
+            "createCmssyPage gets no `{ editor: CmssyEditor }`, so the cmssy editor can't edit this site",
+          severity: "fail",
+        },
+      ];
+}
+
+function draftRouteIssues(sf: ts.SourceFile): WiringIssue[] {
+  const issues: WiringIssue[] = [];
+  if (!calls(sf, "createDraftRoute").length) {
+    issues.push({ message: "doesn't call createDraftRoute", severity: "fail" });
+  }
+  if (!exported(sf, "GET")) {
+    issues.push({ message: "doesn't export a GET handler", severity: "fail" });
+  }
+  return issues;
+}
+
+const BLOCKS_SPECIFIER = /(?:^\.|\/cmssy)\/blocks$/;
+
+function editorIssues(sf: ts.SourceFile, ctx: CheckContext): WiringIssue[] {
+  const name = ctx.registryName;
+  const isRegistry = (specifier: string) =>
+    name
+      ? specifier.split("/").pop() === name
+      : BLOCKS_SPECIFIER.test(specifier);
+  const issues: WiringIssue[] = [];
+  const first = sf.statements[0];
+  const useClient =
+    first &&
+    ts.isExpressionStatement(first) &&
+    stringValue(first.expression) === "use client";
+  if (!useClient) {
+    issues.push({
+      message: 'lost its "use client" directive',
+      severity: "fail",
+    });
+  }
+  if (!exported(sf, "CmssyEditor")) {
+    issues.push({ message: "doesn't export CmssyEditor", severity: "fail" });
+  }
+
+  const staticImport = sf.statements.some(
+    (s) =>
+      ts.isImportDeclaration(s) &&
+      !s.importClause?.isTypeOnly &&
+      ts.isStringLiteral(s.moduleSpecifier) &&
+      isRegistry(s.moduleSpecifier.text),
+  );
+  let lazy = false;
+  walk(sf, (node) => {
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      isRegistry(stringValue(node.arguments[0]) ?? "")
+    ) {
+      lazy = true;
+    }
+  });
+  if (staticImport) {
+    issues.push({
+      message:
+        'imports the block registry statically, bundling it for the browser - load it with import("./blocks")',
+      severity: "fail",
+    });
+  } else if (!lazy) {
+    issues.push({
+      message: 'doesn\'t lazy-load the block registry with import("./blocks")',
+      severity: "fail",
+    });
+  }
+  return issues;
+}
+
+const CONFIG_ENV: Record<string, string> = {
+  workspaceSlug: "CMSSY_WORKSPACE_SLUG",
+  draftSecret: "CMSSY_DRAFT_SECRET",
+};
+
+function configIssues(sf: ts.SourceFile): WiringIssue[] {
+  const config = exported(sf, "cmssy");
+  if (!config || !ts.isObjectLiteralExpression(config)) {
+    return [
+      {
+        message: "doesn't export a `cmssy` config object",
+        severity: "fail",
+      },
+    ];
+  }
+  const issues: WiringIssue[] = [];
+  for (const [key, env] of Object.entries(CONFIG_ENV)) {
+    const value = propertyValue(config, key);
+    if (!value) {
+      issues.push({ message: `has no ${key}`, severity: "fail" });
+    } else if (!isProcessEnv(value)) {
+      issues.push({
+        message: `hard-codes ${key} - read it from process.env.${env}`,
+        severity: "warn",
+      });
+    }
+  }
+  return issues;
+}
+
+const CHECKS: Record<
+  string,
+  (sf: ts.SourceFile, ctx: CheckContext) => WiringIssue[]
+> = {
+  "init/proxy.ts": proxyIssues,
+  "init/app/[[...path]]/page.tsx": pageIssues,
+  "init/app/api/draft/route.ts": draftRouteIssues,
+  "init/cmssy/editor.tsx": editorIssues,
+  "init/cmssy.config.ts": configIssues,
+};
+
+/**
+ * What's wrong with a wiring file generated from `template` (an init
+ * template path, as in the manifest). Empty when it looks right, or when
+ * there's nothing to check for that template.
+ */
+export function wiringIssues(
+  template: string,
+  source: string,
+  fileName: string,
+  opts: WiringOptions = {},
+): WiringIssue[] {
+  const check = CHECKS[template];
+  return check
+    ? check(parseSource(fileName, source), { ...opts, fileName })
+    : [];
+}
@@ -0,0 +1,143 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { project } from "../test/project.js";
+import {
+  describeInstall,
+  detectPackageManager,
+  installCommand,
+} from "./pkg.js";
+import {
+  findWorkspace,
+  findWorkspacePackage,
+  resolveProjectDir,
+  workspacePackages,
+} from "./workspace.js";
+
+const PNPM_MONOREPO = {
+  "package.json": '{ "name": "root", "private": true }',
+  "pnpm-workspace.yaml":
+    "packages:\n  # apps and shared code\n  - 'apps/*'\n  - packages/**\n  - '!**/test/**'\n",
+  "pnpm-lock.yaml": "lockfileVersion: '9.0'\n",
+  "apps/web/package.json": '{ "name": "@acme/web" }',
+  "apps/docs/package.json": '{ "name": "docs" }',
+  "packages/ui/package.json": '{ "name": "@acme/ui" }',
+};
+
+describe("findWorkspace", () => {
+  it("reads pnpm-workspace.yaml packages", async () => {
+    const root = await project(PNPM_MONOREPO);
+    const ws = findWorkspace(join(root, "apps", "web"));
+    expect(ws).toEqual({
+      root,
+      tool: "pnpm",
+      patterns: ["apps/*", "packages/**"],
+    });
+    expect(workspacePackages(ws!).map((p) => p.name)).toEqual([
+      "docs",
+      "@acme/web",
+      "@acme/ui",
+    ]);
+  });
+
+  it("reads package.json workspaces, in both shapes", async () => {
+    for (const workspaces of [["apps/*"], { packages: ["apps/*"] }]) {
+      const root = await project({
+        "package.json": JSON.stringify({ name: "root", workspaces }),
+        "apps/web/package.json": '{ "name": "web" }',
+      });
+      expect(findWorkspace(join(root, "apps", "web"))?.tool).toBe(
+        "package.json",
+      );
+    }
+  });
+
+  it("marks turbo and nx roots", async () => {
+    const root = await project({
+      "turbo.json": "{}",
+      "apps/web/package.json": '{ "name": "web" }',
+    });
+    expect(findWorkspace(join(root, "apps", "web"))).toEqual({
+      root,
+      tool: "turbo",
+      patterns: [],
+    });
+  });
+
+  it("ignores a root whose packages don't include the project", async () => {
+    const root = await project({
+      ...PNPM_MONOREPO,
+      "examples/site/package.json": '{ "name": "site" }',
+    });
+    expect(findWorkspace(join(root, "examples", "site"))).toBeNull();
+  });
+});
+
+describe("findWorkspacePackage", () => {
+  it("matches a package name or a root-relative path", async () => {
+    const root = await project(PNPM_MONOREPO);
+    const ws = findWorkspace(root)!;
+    expect(findWorkspacePackage(ws, "@acme/web")?.dir).toBe(
+      join(root, "apps", "web"),
+    );
+    expect(findWorkspacePackage(ws, "apps/docs")?.name).toBe("docs");
+    expect(findWorkspacePackage(ws, "nope")).toBeNull();
+  });
+});
+
+describe("resolveProjectDir", () => {
+  it("applies --cwd, then --filter", async () => {
+    const root = await project(PNPM_MONOREPO);
+    expect(resolveProjectDir(root, "apps/web", undefined)).toBe(
+      join(root, "apps", "web"),
+    );
+    expect(resolveProjectDir(join(root, "apps"), "..", "docs")).toBe(
+      join(root, "apps", "docs"),
+    );
+    expect(() => resolveProjectDir(root, "missing", undefined)).toThrow(
+      "--cwd missing is not a directory.",
+    );
+    expect(() => resolveProjectDir(root, undefined, "nope")).toThrow(
+      "No workspace package matches --filter nope. Packages: docs, @acme/web, @acme/ui.",
+    );
+  });
+
+  it("refuses --filter outside a workspace", async () => {
+    const dir = await project({ "package.json": '{ "name": "solo" }' });
+    expect(() => resolveProjectDir(dir, undefined, "web")).toThrow(
+      "--filter needs a monorepo",
+    );
+  });
+});
+
+describe("installCommand", () => {
+  it("installs a workspace package from the root, filtered to it", async () => {
+    const root = await project(PNPM_MONOREPO);
+    const web = join(root, "apps", "web");
+    expect(detectPackageManager(web)).toBe("pnpm");
+    const cmd = installCommand("pnpm", web);
+    expect(cmd).toEqual({
+      pm: "pnpm",
+      args: ["install", "--filter", "@acme/web"],
+      cwd: root,
+    });
+    expect(describeInstall(cmd, web)).toBe(
+      "`pnpm install --filter @acme/web` (from ../..)",
+    );
+    expect(installCommand("npm", web).args).toEqual([
+      "install",
+      "--workspace",
+      "@acme/web",
+    ]);
+    expect(installCommand("yarn", web).args).toEqual([]);
+  });
+
+  it("installs a standalone project in place", async () => {
+    const dir = await project({ "package.json": '{ "name": "solo" }' });
+    expect(detectPackageManager(dir, {})).toBe("npm");
+    expect(installCommand("pnpm", dir)).toEqual({
+      pm: "pnpm",
+      args: ["install"],
+      cwd: dir,
+    });
+  });
+});
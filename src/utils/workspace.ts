@@ -0,0 +1,185 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { readPackageJson } from "./project.js";
+
+/**
+ * Monorepo layout: the workspace root that owns the lockfile and installs,
+ * and the packages it declares. pnpm lists them in pnpm-workspace.yaml,
+ * npm/yarn/bun in package.json `workspaces`; turbo and nx sit on top of one
+ * of those, so their config only marks the root.
+ */
+export type WorkspaceTool = "pnpm" | "package.json" | "turbo" | "nx";
+
+export interface Workspace {
+  root: string;
+  tool: WorkspaceTool;
+  /** package globs, relative to the root (`apps/*`) */
+  patterns: string[];
+}
+
+export interface WorkspacePackage {
+  name: string | null;
+  dir: string;
+}
+
+/** `packages:` entries of pnpm-workspace.yaml, without a YAML parser. */
+function pnpmPatterns(content: string): string[] {
+  const block = /^packages:\s*\n((?:[ \t]+-[^\n]*\n?|[ \t]*#[^\n]*\n?)*)/m.exec(
+    content,
+  );
+  if (!block) return [];
+  return [
+    ...block[1]!.matchAll(/^[ \t]+-[ \t]*["']?([^"'\n#]+?)["']?[ \t]*$/gm),
+  ]
+    .map((m) => m[1]!)
+    .filter((p) => !p.startsWith("!"));
+}
+
+function packageJsonPatterns(dir: string): string[] | null {
+  const pkg = readPackageJson(dir) as {
+    workspaces?: string[] | { packages?: string[] };
+  } | null;
+  const ws = pkg?.workspaces;
+  if (!ws) return null;
+  return Array.isArray(ws) ? ws : (ws.packages ?? []);
+}
+
+function workspaceAt(dir: string): Workspace | null {
+  const pnpm = join(dir, "pnpm-workspace.yaml");
+  if (existsSync(pnpm)) {
+    return {
+      root: dir,
+      tool: "pnpm",
+      patterns: pnpmPatterns(readFileSync(pnpm, "utf8")),
+    };
+  }
+  const patterns = packageJsonPatterns(dir);
+  if (patterns) return { root: dir, tool: "package.json", patterns };
+  for (const tool of ["turbo", "nx"] as const) {
+    if (existsSync(join(dir, `${tool}.json`))) {
+      return { root: dir, tool, patterns: [] };
+    }
+  }
+  return null;
+}
+
+/**
+ * The nearest workspace root at or above `dir`, or null for a standalone
+ * project. A root whose packages don't include `dir` doesn't count.
+ */
+export function findWorkspace(dir: string): Workspace | null {
+  let cur = resolve(dir);
+  for (;;) {
+    const ws = workspaceAt(cur);
+    if (
+      ws &&
+      (cur === resolve(dir) ||
+        !ws.patterns.length ||
+        workspacePackages(ws).some((p) => p.dir === resolve(dir)))
+    ) {
+      return ws;
+    }
+    const parent = dirname(cur);
+    if (parent === cur) return null;
+    cur = parent;
+  }
+}
+
+function expand(root: string, pattern: string): string[] {
+  const parts = pattern.replace(/\/+$/, "").split("/");
+  let dirs = [root];
+  for (const part of parts) {
+    const next: string[] = [];
+    for (const d of dirs) {
+      if (part === "**") {
+        const walk = (p: string): void => {
+          next.push(p);
+          for (const e of readdirSync(p)) {
+            if (e === "node_modules" || e.startsWith(".")) continue;
+            if (statSync(join(p, e)).isDirectory()) walk(join(p, e));
+          }
+        };
+        walk(d);
+      } else if (part.includes("*")) {
+        const re = new RegExp(
+          `^${part.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`,
+        );
+        if (!existsSync(d)) continue;
+        for (const e of readdirSync(d)) {
+          if (re.test(e) && statSync(join(d, e)).isDirectory()) {
+            next.push(join(d, e));
+          }
+        }
+      } else if (existsSync(join(d, part))) {
+        next.push(join(d, part));
+      }
+    }
+    dirs = next;
+  }
+  return dirs;
+}
+
+/** Every package directory (with a package.json) the workspace declares. */
+export function workspacePackages(ws: Workspace): WorkspacePackage[] {
+  const dirs = new Set(ws.patterns.flatMap((p) => expand(ws.root, p)));
+  return [...dirs]
+    .filter((d) => d !== ws.root && existsSync(join(d, "package.json")))
+    .sort()
+    .map((dir) => ({ name: readPackageJson(dir)?.name ?? null, dir }));
+}
+
+/**
+ * The package `--filter` names: a package name, or a directory relative to
+ * the workspace root (`apps/web`).
+ */
+export function findWorkspacePackage(
+  ws: Workspace,
+  filter: string,
+): WorkspacePackage | null {
+  const packages = workspacePackages(ws);
+  const byPath = resolve(ws.root, filter);
+  return (
+    packages.find((p) => p.name === filter) ??
+    packages.find((p) => p.dir === byPath) ??
+    null
+  );
+}
+
+/** `apps/web` for a package dir; "." for the root itself. */
+export function workspacePath(ws: Workspace, dir: string): string {
+  return relative(ws.root, dir).split(sep).join("/") || ".";
+}
+
+/**
+ * The directory a command runs in: `--cwd` (relative to where cmssy was
+ * started), narrowed by `--filter` to one package of the workspace around
+ * it. Throws with a message for the user when either doesn't resolve.
+ */
+export function resolveProjectDir(
+  startDir: string,
+  cwd: string | undefined,
+  filter: string | undefined,
+): string {
+  const dir = resolve(startDir, cwd ?? ".");
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    throw new Error(`--cwd ${cwd} is not a directory.`);
+  }
+  if (filter === undefined) return dir;
+  const ws = findWorkspace(dir);
+  if (!ws) {
+    throw new Error(
+      `--filter needs a monorepo, but ${dir} isn't inside a pnpm, npm, yarn or bun workspace.`,
+    );
+  }
+  const pkg = findWorkspacePackage(ws, filter);
+  if (!pkg) {
+    const known = workspacePackages(ws).map(
+      (p) => p.name ?? workspacePath(ws, p.dir),
+    );
+    throw new Error(
+      `No workspace package matches --filter ${filter}.` +
+        (known.length ? ` Packages: ${known.join(", ")}.` : ""),
+    );
+  }
+  return pkg.dir;
+}
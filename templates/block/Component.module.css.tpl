@@ -5,8 +5,4 @@
   font-family: system-ui, -apple-system, sans-serif;
 }
 
-.heading {
-  margin: 0;
-  font-size: 1.5rem;
-  font-weight: 700;
-}
+{{styles}}
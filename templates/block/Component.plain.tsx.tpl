@@ -0,0 +1,14 @@
+{{imports}}
+type {{Pascal}}Content = {
+{{contentType}}
+};
+
+export default function {{Pascal}}({ content }: { content: {{Pascal}}Content }) {
+{{destructure}}
+{{guard}}
+  return (
+    <section>
+{{body}}
+    </section>
+  );
+}
@@ -0,0 +1,14 @@
+{{imports}}
+type {{Pascal}}Content = {
+{{contentType}}
+};
+
+export default function {{Pascal}}({ content }: { content: {{Pascal}}Content }) {
+{{destructure}}
+{{guard}}
+  return (
+    <section className="mx-auto max-w-2xl px-6 py-12 font-sans">
+{{body}}
+    </section>
+  );
+}
@@ -1,15 +1,15 @@
-import styles from "./{{Pascal}}.module.css";
+{{imports}}import styles from "./{{Pascal}}.module.css";
 
 type {{Pascal}}Content = {
-  heading?: string;
+{{contentType}}
 };
 
 export default function {{Pascal}}({ content }: { content: {{Pascal}}Content }) {
-  const { heading } = content;
-  if (!heading) return null;
+{{destructure}}
+{{guard}}
   return (
     <section className={styles.block}>
-      <h2 className={styles.heading}>{heading}</h2>
+{{body}}
     </section>
   );
 }
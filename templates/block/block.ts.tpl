@@ -6,6 +6,6 @@ export const {{camel}}Block = defineBlock({
   label: "{{Label}}",
   component: {{Pascal}},
   props: {
-    heading: fields.singleLine({ label: "Heading" }),
+{{props}}
   },
 });